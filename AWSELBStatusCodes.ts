@@ -0,0 +1,115 @@
+// Unofficial status codes used by AWS Elastic Load Balancing
+// (https://docs.aws.amazon.com/elasticloadbalancing/latest/application/load-balancer-troubleshooting.html).
+// They are not part of `HTTPStatus`.
+
+import {
+  TableMatches,
+  VendorStatusInfo,
+  vendorRegistry,
+} from "./VendorStatusCodes";
+
+/**
+ * The client closed the connection with the load balancer before
+ * the idle timeout period elapsed. Only logged.
+ *
+ * Unofficial: AWS ELB.
+ */
+export const CLIENT_CLOSED_CONNECTION = 460;
+export type CLIENT_CLOSED_CONNECTION = 460;
+
+/**
+ * The load balancer received an `X-Forwarded-For` request header
+ * with more than 30 IP addresses.
+ *
+ * Unofficial: AWS ELB.
+ */
+export const TOO_MANY_FORWARDED_IPS = 463;
+export type TOO_MANY_FORWARDED_IPS = 463;
+
+/**
+ * The client's protocol version is incompatible with the protocol
+ * version of the target group.
+ *
+ * Unofficial: AWS ELB.
+ */
+export const INCOMPATIBLE_PROTOCOL_VERSIONS = 464;
+export type INCOMPATIBLE_PROTOCOL_VERSIONS = 464;
+
+/**
+ * The identity provider returned an error code when authenticating
+ * the user through the load balancer.
+ *
+ * Unofficial: AWS ELB.
+ */
+export const IDENTITY_PROVIDER_UNAUTHORIZED = 561;
+export type IDENTITY_PROVIDER_UNAUTHORIZED = 561;
+
+/**
+ * The AWS ELB status codes signalling an error by the client.
+ */
+export type AWSELBClientError =
+  | CLIENT_CLOSED_CONNECTION
+  | TOO_MANY_FORWARDED_IPS
+  | INCOMPATIBLE_PROTOCOL_VERSIONS;
+
+/**
+ * The AWS ELB client error status codes, keyed by name.
+ */
+export const AWSELBClientError = Object.freeze({
+  CLIENT_CLOSED_CONNECTION,
+  TOO_MANY_FORWARDED_IPS,
+  INCOMPATIBLE_PROTOCOL_VERSIONS,
+} as const);
+
+/**
+ * The AWS ELB status codes signalling an error at the load balancer.
+ */
+export type AWSELBServerError = IDENTITY_PROVIDER_UNAUTHORIZED;
+
+/**
+ * The AWS ELB server error status codes, keyed by name.
+ */
+export const AWSELBServerError = Object.freeze({
+  IDENTITY_PROVIDER_UNAUTHORIZED,
+} as const);
+
+/**
+ * An unofficial status code used by AWS ELB.
+ */
+export type AWSELBStatus = AWSELBClientError | AWSELBServerError;
+
+const AWSELB_TABLE = {
+  [CLIENT_CLOSED_CONNECTION]: {
+    name: "CLIENT_CLOSED_CONNECTION",
+    reason: "Client Closed Connection",
+    deprecated: false,
+  },
+  [TOO_MANY_FORWARDED_IPS]: {
+    name: "TOO_MANY_FORWARDED_IPS",
+    reason: "Too Many Forwarded IPs",
+    deprecated: false,
+  },
+  [INCOMPATIBLE_PROTOCOL_VERSIONS]: {
+    name: "INCOMPATIBLE_PROTOCOL_VERSIONS",
+    reason: "Incompatible Protocol Versions",
+    deprecated: false,
+  },
+  [IDENTITY_PROVIDER_UNAUTHORIZED]: {
+    name: "IDENTITY_PROVIDER_UNAUTHORIZED",
+    reason: "Unauthorized",
+    deprecated: false,
+  },
+} as const;
+
+const AWSELB_TABLE_MATCHES: TableMatches<
+  typeof import("./AWSELBStatusCodes"),
+  typeof AWSELB_TABLE,
+  AWSELBStatus
+> = true;
+
+/**
+ * The metadata of every AWS ELB status code, keyed by code.
+ */
+export const AWS_ELB_STATUS_REGISTRY: {
+  readonly [S in AWSELBStatus]: VendorStatusInfo<S>;
+} = vendorRegistry("AWS ELB", AWSELB_TABLE);
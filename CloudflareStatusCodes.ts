@@ -0,0 +1,188 @@
+// Unofficial status codes used by Cloudflare's reverse proxy
+// (https://developers.cloudflare.com/support/troubleshooting/http-status-codes/).
+// They are not part of `HTTPStatus`.
+
+import {
+  TableMatches,
+  VendorStatusInfo,
+  vendorRegistry,
+} from "./VendorStatusCodes";
+
+/**
+ * The origin server returned an empty, unknown, or unexpected
+ * response to Cloudflare.
+ *
+ * Unofficial: Cloudflare.
+ */
+export const WEB_SERVER_RETURNED_AN_UNKNOWN_ERROR = 520;
+export type WEB_SERVER_RETURNED_AN_UNKNOWN_ERROR = 520;
+
+/**
+ * The origin server refused connections from Cloudflare. Security
+ * solutions at the origin may be blocking legitimate connections from
+ * certain Cloudflare IP addresses.
+ *
+ * Unofficial: Cloudflare.
+ */
+export const WEB_SERVER_IS_DOWN = 521;
+export type WEB_SERVER_IS_DOWN = 521;
+
+/**
+ * Cloudflare timed out contacting the origin server.
+ *
+ * Unofficial: Cloudflare.
+ */
+export const CONNECTION_TIMED_OUT = 522;
+export type CONNECTION_TIMED_OUT = 522;
+
+/**
+ * Cloudflare could not reach the origin server; for example, if the
+ * DNS records for the origin server are incorrect or missing.
+ *
+ * Unofficial: Cloudflare.
+ */
+export const ORIGIN_IS_UNREACHABLE = 523;
+export type ORIGIN_IS_UNREACHABLE = 523;
+
+/**
+ * Cloudflare was able to complete a TCP connection to the origin
+ * server, but did not receive a timely HTTP response.
+ *
+ * Unofficial: Cloudflare.
+ */
+export const A_TIMEOUT_OCCURRED = 524;
+export type A_TIMEOUT_OCCURRED = 524;
+
+/**
+ * Cloudflare could not negotiate a SSL/TLS handshake with the origin
+ * server.
+ *
+ * Unofficial: Cloudflare.
+ */
+export const SSL_HANDSHAKE_FAILED = 525;
+export type SSL_HANDSHAKE_FAILED = 525;
+
+/**
+ * Cloudflare could not validate the SSL certificate on the origin
+ * web server.
+ *
+ * Unofficial: Cloudflare.
+ */
+export const INVALID_SSL_CERTIFICATE = 526;
+export type INVALID_SSL_CERTIFICATE = 526;
+
+/**
+ * The connection between Cloudflare and the origin's Railgun server
+ * was interrupted. Railgun is no longer offered, so this code is no
+ * longer used.
+ *
+ * Unofficial: Cloudflare.
+ */
+export const RAILGUN_ERROR = 527;
+export type RAILGUN_ERROR = 527;
+
+/**
+ * Returned along with a 1xxx error, which describes the actual
+ * problem; for example, that the origin's DNS records could not be
+ * resolved.
+ *
+ * Unofficial: Cloudflare.
+ */
+export const ORIGIN_DNS_ERROR = 530;
+export type ORIGIN_DNS_ERROR = 530;
+
+/**
+ * The Cloudflare status codes signalling an error at or behind the
+ * proxy.
+ */
+export type CloudflareServerError =
+  | WEB_SERVER_RETURNED_AN_UNKNOWN_ERROR
+  | WEB_SERVER_IS_DOWN
+  | CONNECTION_TIMED_OUT
+  | ORIGIN_IS_UNREACHABLE
+  | A_TIMEOUT_OCCURRED
+  | SSL_HANDSHAKE_FAILED
+  | INVALID_SSL_CERTIFICATE
+  | RAILGUN_ERROR
+  | ORIGIN_DNS_ERROR;
+
+/**
+ * The Cloudflare server error status codes, keyed by name.
+ */
+export const CloudflareServerError = Object.freeze({
+  WEB_SERVER_RETURNED_AN_UNKNOWN_ERROR,
+  WEB_SERVER_IS_DOWN,
+  CONNECTION_TIMED_OUT,
+  ORIGIN_IS_UNREACHABLE,
+  A_TIMEOUT_OCCURRED,
+  SSL_HANDSHAKE_FAILED,
+  INVALID_SSL_CERTIFICATE,
+  RAILGUN_ERROR,
+  ORIGIN_DNS_ERROR,
+} as const);
+
+/**
+ * An unofficial status code used by Cloudflare.
+ */
+export type CloudflareStatus = CloudflareServerError;
+
+const CLOUDFLARE_TABLE = {
+  [WEB_SERVER_RETURNED_AN_UNKNOWN_ERROR]: {
+    name: "WEB_SERVER_RETURNED_AN_UNKNOWN_ERROR",
+    reason: "Web Server Returned an Unknown Error",
+    deprecated: false,
+  },
+  [WEB_SERVER_IS_DOWN]: {
+    name: "WEB_SERVER_IS_DOWN",
+    reason: "Web Server Is Down",
+    deprecated: false,
+  },
+  [CONNECTION_TIMED_OUT]: {
+    name: "CONNECTION_TIMED_OUT",
+    reason: "Connection Timed Out",
+    deprecated: false,
+  },
+  [ORIGIN_IS_UNREACHABLE]: {
+    name: "ORIGIN_IS_UNREACHABLE",
+    reason: "Origin Is Unreachable",
+    deprecated: false,
+  },
+  [A_TIMEOUT_OCCURRED]: {
+    name: "A_TIMEOUT_OCCURRED",
+    reason: "A Timeout Occurred",
+    deprecated: false,
+  },
+  [SSL_HANDSHAKE_FAILED]: {
+    name: "SSL_HANDSHAKE_FAILED",
+    reason: "SSL Handshake Failed",
+    deprecated: false,
+  },
+  [INVALID_SSL_CERTIFICATE]: {
+    name: "INVALID_SSL_CERTIFICATE",
+    reason: "Invalid SSL Certificate",
+    deprecated: false,
+  },
+  [RAILGUN_ERROR]: {
+    name: "RAILGUN_ERROR",
+    reason: "Railgun Error",
+    deprecated: true,
+  },
+  [ORIGIN_DNS_ERROR]: {
+    name: "ORIGIN_DNS_ERROR",
+    reason: "Origin DNS Error",
+    deprecated: false,
+  },
+} as const;
+
+const CLOUDFLARE_TABLE_MATCHES: TableMatches<
+  typeof import("./CloudflareStatusCodes"),
+  typeof CLOUDFLARE_TABLE,
+  CloudflareStatus
+> = true;
+
+/**
+ * The metadata of every Cloudflare status code, keyed by code.
+ */
+export const CLOUDFLARE_STATUS_REGISTRY: {
+  readonly [S in CloudflareStatus]: VendorStatusInfo<S>;
+} = vendorRegistry("Cloudflare", CLOUDFLARE_TABLE);
@@ -0,0 +1,60 @@
+// All the packs of unofficial status codes together. Importing this
+// module imports every pack; import a single pack to use only its
+// codes.
+
+import { HTTPStatus, isHTTPStatus } from "./HTTPStatusCodes";
+import { AWSELBStatus, AWS_ELB_STATUS_REGISTRY } from "./AWSELBStatusCodes";
+import {
+  CloudflareStatus,
+  CLOUDFLARE_STATUS_REGISTRY,
+} from "./CloudflareStatusCodes";
+import { IISStatus, IIS_STATUS_REGISTRY } from "./IISStatusCodes";
+import { NginxStatus, NGINX_STATUS_REGISTRY } from "./NginxStatusCodes";
+import { VendorStatusInfo } from "./VendorStatusCodes";
+
+/**
+ * An unofficial status code used by one of the supported vendors.
+ */
+export type UnofficialStatus =
+  | NginxStatus
+  | CloudflareStatus
+  | IISStatus
+  | AWSELBStatus;
+
+/**
+ * An official or unofficial status code.
+ */
+export type ExtendedHTTPStatus = HTTPStatus | UnofficialStatus;
+
+/**
+ * The metadata of every unofficial status code, keyed by code.
+ */
+export const UNOFFICIAL_STATUS_REGISTRY: {
+  readonly [S in UnofficialStatus]: VendorStatusInfo<S>;
+} = Object.freeze({
+  ...NGINX_STATUS_REGISTRY,
+  ...CLOUDFLARE_STATUS_REGISTRY,
+  ...IIS_STATUS_REGISTRY,
+  ...AWS_ELB_STATUS_REGISTRY,
+});
+
+/**
+ * Whether `status` is an unofficial status code of one of the
+ * supported vendors.
+ */
+export function isUnofficialStatus(status: number): status is UnofficialStatus {
+  return Object.prototype.hasOwnProperty.call(
+    UNOFFICIAL_STATUS_REGISTRY,
+    status
+  );
+}
+
+/**
+ * Whether `status` is an official status code or an unofficial one of
+ * the supported vendors.
+ */
+export function isExtendedHTTPStatus(
+  status: number
+): status is ExtendedHTTPStatus {
+  return isHTTPStatus(status) || isUnofficialStatus(status);
+}
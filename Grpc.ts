@@ -0,0 +1,214 @@
+// gRPC status codes, and the mapping between them and HTTP status
+// codes given by google.rpc.Code
+// (https://github.com/googleapis/googleapis/blob/master/google/rpc/code.proto).
+
+import {
+  BAD_GATEWAY,
+  BAD_REQUEST,
+  CONFLICT,
+  FORBIDDEN,
+  GATEWAY_TIMEOUT,
+  HTTPStatus,
+  INTERNAL_SERVER_ERROR,
+  NOT_FOUND,
+  NOT_IMPLEMENTED,
+  OK,
+  PRECONDITION_FAILED,
+  RANGE_NOT_SATISFIABLE,
+  REQUEST_TIMEOUT,
+  SERVICE_UNAVAILABLE,
+  Success,
+  TOO_MANY_REQUESTS,
+  UNAUTHORIZED,
+  isSuccess,
+} from "./HTTPStatusCodes";
+import { CLIENT_CLOSED_REQUEST } from "./NginxStatusCodes";
+
+/**
+ * The gRPC status codes, keyed by name. Their names clash with those
+ * of HTTP status codes, so they are only exported together.
+ *
+ * For example:
+ *
+ * ``` js
+ * GrpcCode.NOT_FOUND === 5;
+ * ```
+ */
+export const GrpcCode = Object.freeze({
+  OK: 0,
+  CANCELLED: 1,
+  UNKNOWN: 2,
+  INVALID_ARGUMENT: 3,
+  DEADLINE_EXCEEDED: 4,
+  NOT_FOUND: 5,
+  ALREADY_EXISTS: 6,
+  PERMISSION_DENIED: 7,
+  RESOURCE_EXHAUSTED: 8,
+  FAILED_PRECONDITION: 9,
+  ABORTED: 10,
+  OUT_OF_RANGE: 11,
+  UNIMPLEMENTED: 12,
+  INTERNAL: 13,
+  UNAVAILABLE: 14,
+  DATA_LOSS: 15,
+  UNAUTHENTICATED: 16,
+} as const);
+export type GrpcCode = (typeof GrpcCode)[keyof typeof GrpcCode];
+
+/**
+ * The name of a gRPC status code, e.g. `"NOT_FOUND"`.
+ */
+export type GrpcCodeName = keyof typeof GrpcCode;
+
+// The HTTP status code of each gRPC code, as given by google.rpc.Code.
+// Only `CANCELLED` has no official equivalent, and maps to the 499 of
+// nginx.
+const TO_HTTP = {
+  [GrpcCode.OK]: OK,
+  [GrpcCode.CANCELLED]: CLIENT_CLOSED_REQUEST,
+  [GrpcCode.UNKNOWN]: INTERNAL_SERVER_ERROR,
+  [GrpcCode.INVALID_ARGUMENT]: BAD_REQUEST,
+  [GrpcCode.DEADLINE_EXCEEDED]: GATEWAY_TIMEOUT,
+  [GrpcCode.NOT_FOUND]: NOT_FOUND,
+  [GrpcCode.ALREADY_EXISTS]: CONFLICT,
+  [GrpcCode.PERMISSION_DENIED]: FORBIDDEN,
+  [GrpcCode.RESOURCE_EXHAUSTED]: TOO_MANY_REQUESTS,
+  [GrpcCode.FAILED_PRECONDITION]: BAD_REQUEST,
+  [GrpcCode.ABORTED]: CONFLICT,
+  [GrpcCode.OUT_OF_RANGE]: BAD_REQUEST,
+  [GrpcCode.UNIMPLEMENTED]: NOT_IMPLEMENTED,
+  [GrpcCode.INTERNAL]: INTERNAL_SERVER_ERROR,
+  [GrpcCode.UNAVAILABLE]: SERVICE_UNAVAILABLE,
+  [GrpcCode.DATA_LOSS]: INTERNAL_SERVER_ERROR,
+  [GrpcCode.UNAUTHENTICATED]: UNAUTHORIZED,
+} as const;
+
+// The gRPC code of each HTTP status code that google.rpc.Code maps to,
+// choosing the most general code where several map to the same
+// status, followed by the codes whose meaning is the same as a gRPC
+// code's.
+const FROM_HTTP = {
+  [OK]: GrpcCode.OK,
+  [CLIENT_CLOSED_REQUEST]: GrpcCode.CANCELLED,
+  [BAD_REQUEST]: GrpcCode.INVALID_ARGUMENT,
+  [GATEWAY_TIMEOUT]: GrpcCode.DEADLINE_EXCEEDED,
+  [NOT_FOUND]: GrpcCode.NOT_FOUND,
+  [CONFLICT]: GrpcCode.ABORTED,
+  [FORBIDDEN]: GrpcCode.PERMISSION_DENIED,
+  [TOO_MANY_REQUESTS]: GrpcCode.RESOURCE_EXHAUSTED,
+  [NOT_IMPLEMENTED]: GrpcCode.UNIMPLEMENTED,
+  [INTERNAL_SERVER_ERROR]: GrpcCode.INTERNAL,
+  [SERVICE_UNAVAILABLE]: GrpcCode.UNAVAILABLE,
+  [UNAUTHORIZED]: GrpcCode.UNAUTHENTICATED,
+  [REQUEST_TIMEOUT]: GrpcCode.DEADLINE_EXCEEDED,
+  [PRECONDITION_FAILED]: GrpcCode.FAILED_PRECONDITION,
+  [RANGE_NOT_SATISFIABLE]: GrpcCode.OUT_OF_RANGE,
+  [BAD_GATEWAY]: GrpcCode.UNAVAILABLE,
+} as const;
+
+type ToHttp = typeof TO_HTTP;
+type FromHttp = typeof FROM_HTTP;
+
+/**
+ * The HTTP status code `toGrpc` maps to a gRPC code of its own.
+ */
+export type MappedStatus = keyof FromHttp;
+
+/**
+ * The gRPC code `toGrpc` maps `S` to.
+ */
+export type GrpcCodeOf<S extends HTTPStatus | CLIENT_CLOSED_REQUEST> =
+  S extends MappedStatus
+    ? FromHttp[S]
+    : S extends Success
+    ? typeof GrpcCode.OK
+    : typeof GrpcCode.UNKNOWN;
+
+/**
+ * The HTTP status code `fromGrpc` maps `C` to.
+ */
+export type HttpStatusOf<C extends GrpcCode> = ToHttp[C];
+
+/**
+ * Whether `code` is a gRPC status code.
+ */
+export function isGrpcCode(code: number): code is GrpcCode {
+  return Object.prototype.hasOwnProperty.call(TO_HTTP, code);
+}
+
+/**
+ * The HTTP status code of a gRPC status code, as given by
+ * google.rpc.Code. `CANCELLED` maps to the unofficial 499 (Client
+ * Closed Request) of nginx, and codes unknown to this version of the
+ * library to 500, like `UNKNOWN`.
+ *
+ * For example:
+ *
+ * ``` js
+ * fromGrpc(GrpcCode.RESOURCE_EXHAUSTED); // 429
+ * ```
+ */
+export function fromGrpc<C extends GrpcCode>(code: C): HttpStatusOf<C>;
+export function fromGrpc(
+  code: number
+): HttpStatusOf<GrpcCode> | INTERNAL_SERVER_ERROR;
+export function fromGrpc(
+  code: number
+): HttpStatusOf<GrpcCode> | INTERNAL_SERVER_ERROR {
+  return isGrpcCode(code) ? TO_HTTP[code] : INTERNAL_SERVER_ERROR;
+}
+
+/**
+ * The gRPC status code of an HTTP status code. The mapping is lossy,
+ * as HTTP has many more codes than gRPC:
+ *
+ * - The codes google.rpc.Code maps to map back to the most general of
+ *   their gRPC codes, e.g. `400` to `INVALID_ARGUMENT` rather than
+ *   `FAILED_PRECONDITION` or `OUT_OF_RANGE`, and `409` to `ABORTED`
+ *   rather than `ALREADY_EXISTS`.
+ * - `408`, `412`, `416` and `502` map to the gRPC codes with the same
+ *   meaning (`DEADLINE_EXCEEDED`, `FAILED_PRECONDITION`,
+ *   `OUT_OF_RANGE` and `UNAVAILABLE`).
+ * - Any other success maps to `OK`.
+ * - Anything else maps to `UNKNOWN`, as gRPC itself does for HTTP
+ *   responses it cannot interpret.
+ *
+ * For example:
+ *
+ * ``` js
+ * toGrpc(NOT_FOUND); // 5, GrpcCode.NOT_FOUND
+ * toGrpc(CREATED); // 0, GrpcCode.OK
+ * toGrpc(IM_A_TEAPOT); // 2, GrpcCode.UNKNOWN
+ * ```
+ */
+export function toGrpc<S extends HTTPStatus | CLIENT_CLOSED_REQUEST>(
+  status: S
+): GrpcCodeOf<S>;
+export function toGrpc(status: number): GrpcCode;
+export function toGrpc(status: number): GrpcCode {
+  if (Object.prototype.hasOwnProperty.call(FROM_HTTP, status)) {
+    return FROM_HTTP[status as MappedStatus];
+  }
+  return isSuccess(status) ? GrpcCode.OK : GrpcCode.UNKNOWN;
+}
+
+const GRPC_NAMES = (() => {
+  const names: { [code: number]: GrpcCodeName } = {};
+  for (const name of Object.keys(GrpcCode) as GrpcCodeName[]) {
+    names[GrpcCode[name]] = name;
+  }
+  return Object.freeze(names);
+})();
+
+/**
+ * The name of a gRPC status code.
+ *
+ * For example:
+ *
+ * ``` js
+ * grpcNameOf(14); // "UNAVAILABLE"
+ * ```
+ */
+export function grpcNameOf(code: GrpcCode): GrpcCodeName {
+  return GRPC_NAMES[code];
+}
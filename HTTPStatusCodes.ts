@@ -1,4 +1,30 @@
-// codes and meanings from https://en.wikipedia.org/wiki/List_of_HTTP_status_codes
+// Codes, reason phrases and references from the IANA HTTP Status Code
+// Registry (https://www.iana.org/assignments/http-status-codes);
+// descriptions from
+// https://en.wikipedia.org/wiki/List_of_HTTP_status_codes.
+//
+// The code between the GENERATED markers is regenerated from
+// iana/http-status-codes.csv by scripts/generateStatusCodes.ts, which
+// keeps the descriptions and semantic flags already there. Edit those
+// in place; change the codes, names and references through the script.
+
+// Freezes a category object with its deprecated names added, hidden
+// from iteration. Declared before the generated code, which uses it.
+function withDeprecatedNames<M extends object, D extends object>(
+  members: M,
+  deprecated: D
+): Readonly<M & D> {
+  const object = { ...members };
+  for (const name of Object.keys(deprecated) as (keyof D)[]) {
+    Object.defineProperty(object, name, {
+      value: deprecated[name],
+      enumerable: false,
+    });
+  }
+  return Object.freeze(object as M & D);
+}
+
+// BEGIN GENERATED
 
 /**
  * The server has received the request headers and the client should
@@ -15,6 +41,8 @@
  * request should be repeated without the `Expect` header as it
  * indicates that the server doesn't support expectations (this is the
  * case, for example, of HTTP/1.0 servers).
+ *
+ * [RFC 9110, Section 15.2.1](https://www.rfc-editor.org/rfc/rfc9110#section-15.2.1)
  */
 export const CONTINUE = 100;
 export type CONTINUE = 100;
@@ -22,6 +50,8 @@ export type CONTINUE = 100;
 /**
  * The requester has asked the server to switch protocols and the
  * server has agreed to do so.
+ *
+ * [RFC 9110, Section 15.2.2](https://www.rfc-editor.org/rfc/rfc9110#section-15.2.2)
  */
 export const SWITCHING_PROTOCOLS = 101;
 export type SWITCHING_PROTOCOLS = 101;
@@ -33,6 +63,8 @@ export type SWITCHING_PROTOCOLS = 101;
  * server has received and is processing the request, but no response
  * is available yet. This prevents the client from timing out and
  * assuming the request was lost.
+ *
+ * [RFC 2518, Section 10.1](https://www.rfc-editor.org/rfc/rfc2518#section-10.1)
  */
 export const PROCESSING = 102;
 export type PROCESSING = 102;
@@ -40,7 +72,7 @@ export type PROCESSING = 102;
 /**
  * Used to return some response headers before final HTTP message.
  *
- * [RFC 8297](https://tools.ietf.org/html/rfc8297)
+ * [RFC 8297, Section 2](https://www.rfc-editor.org/rfc/rfc8297#section-2)
  */
 export const EARLY_HINTS = 103;
 export type EARLY_HINTS = 103;
@@ -61,12 +93,24 @@ export type Informational =
   | PROCESSING
   | EARLY_HINTS;
 
+/**
+ * The informational (1xx) status codes, keyed by name.
+ */
+export const Informational = Object.freeze({
+  CONTINUE,
+  SWITCHING_PROTOCOLS,
+  PROCESSING,
+  EARLY_HINTS,
+} as const);
+
 /**
  * Standard response for successful HTTP requests. The actual response
  * will depend on the request method used. In a `GET` request, the
  * response will contain an entity corresponding to the requested
  * resource. In a `POST` request, the response will contain an entity
  * describing or containing the result of the action.
+ *
+ * [RFC 9110, Section 15.3.1](https://www.rfc-editor.org/rfc/rfc9110#section-15.3.1)
  */
 export const OK = 200;
 export type OK = 200;
@@ -74,6 +118,8 @@ export type OK = 200;
 /**
  * The request has been fulfilled, resulting in the creation of a new
  * resource.
+ *
+ * [RFC 9110, Section 15.3.2](https://www.rfc-editor.org/rfc/rfc9110#section-15.3.2)
  */
 export const CREATED = 201;
 export type CREATED = 201;
@@ -83,6 +129,8 @@ export type CREATED = 201;
  * has not been completed. The request might or might not be
  * eventually acted upon, and may be disallowed when processing
  * occurs.
+ *
+ * [RFC 9110, Section 15.3.3](https://www.rfc-editor.org/rfc/rfc9110#section-15.3.3)
  */
 export const ACCEPTED = 202;
 export type ACCEPTED = 202;
@@ -93,6 +141,8 @@ export type ACCEPTED = 202;
  * response.
  *
  * Since HTTP/1.1
+ *
+ * [RFC 9110, Section 15.3.4](https://www.rfc-editor.org/rfc/rfc9110#section-15.3.4)
  */
 export const NON_AUTHORITATIVE_INFORMATION = 203;
 export type NON_AUTHORITATIVE_INFORMATION = 203;
@@ -100,6 +150,8 @@ export type NON_AUTHORITATIVE_INFORMATION = 203;
 /**
  * The server successfully processed the request and is not returning
  * any content.
+ *
+ * [RFC 9110, Section 15.3.5](https://www.rfc-editor.org/rfc/rfc9110#section-15.3.5)
  */
 export const NO_CONTENT = 204;
 export type NO_CONTENT = 204;
@@ -108,6 +160,8 @@ export type NO_CONTENT = 204;
  * The server successfully processed the request, but is not returning
  * any content. Unlike a 204 response, this response requires that the
  * requester reset the document view.
+ *
+ * [RFC 9110, Section 15.3.6](https://www.rfc-editor.org/rfc/rfc9110#section-15.3.6)
  */
 export const RESET_CONTENT = 205;
 export type RESET_CONTENT = 205;
@@ -117,7 +171,8 @@ export type RESET_CONTENT = 205;
  * due to a range header sent by the client. The range header is used
  * by HTTP clients to enable resuming of interrupted downloads, or
  * split a download into multiple simultaneous streams.
- * [RFC 7233](https://tools.ietf.org/html/rfc7233)
+ *
+ * [RFC 9110, Section 15.3.7](https://www.rfc-editor.org/rfc/rfc9110#section-15.3.7)
  */
 export const PARTIAL_CONTENT = 206;
 export type PARTIAL_CONTENT = 206;
@@ -127,7 +182,7 @@ export type PARTIAL_CONTENT = 206;
  * contain a number of separate response codes, depending on how many
  * sub-requests were made.
  *
- * [WebDAV](https://tools.ietf.org/html/rfc4918)
+ * [RFC 4918, Section 11.1](https://www.rfc-editor.org/rfc/rfc4918#section-11.1)
  */
 export const MULTI_STATUS = 207;
 export type MULTI_STATUS = 207;
@@ -137,7 +192,7 @@ export type MULTI_STATUS = 207;
  * preceding part of the (multistatus) response, and are not being
  * included again.
  *
- * [WebDAV](https://tools.ietf.org/html/rfc5842)
+ * [RFC 5842, Section 7.1](https://www.rfc-editor.org/rfc/rfc5842#section-7.1)
  */
 export const ALREADY_REPORTED = 208;
 export type ALREADY_REPORTED = 208;
@@ -147,7 +202,7 @@ export type ALREADY_REPORTED = 208;
  * response is a representation of the result of one or more
  * instance-manipulations applied to the current instance.
  *
- * [RFC 3229](https://tools.ietf.org/html/rfc3229)
+ * [RFC 3229, Section 10.4.1](https://www.rfc-editor.org/rfc/rfc3229#section-10.4.1)
  */
 export const IM_USED = 226;
 export type IM_USED = 226;
@@ -168,18 +223,38 @@ export type Success =
   | ALREADY_REPORTED
   | IM_USED;
 
+/**
+ * The successful (2xx) status codes, keyed by name.
+ */
+export const Success = Object.freeze({
+  OK,
+  CREATED,
+  ACCEPTED,
+  NON_AUTHORITATIVE_INFORMATION,
+  NO_CONTENT,
+  RESET_CONTENT,
+  PARTIAL_CONTENT,
+  MULTI_STATUS,
+  ALREADY_REPORTED,
+  IM_USED,
+} as const);
+
 /**
  * Indicates multiple options for the resource from which the client
  * may choose (via agent-driven content negotiation). For example,
  * this code could be used to present multiple video format options,
  * to list files with different filename extensions, or to suggest
  * word-sense disambiguation.
+ *
+ * [RFC 9110, Section 15.4.1](https://www.rfc-editor.org/rfc/rfc9110#section-15.4.1)
  */
 export const MULTIPLE_CHOICES = 300;
 export type MULTIPLE_CHOICES = 300;
 
 /**
  * This and all future requests should be directed to the given URI.
+ *
+ * [RFC 9110, Section 15.4.2](https://www.rfc-editor.org/rfc/rfc9110#section-15.4.2)
  */
 export const MOVED_PERMANENTLY = 301;
 export type MOVED_PERMANENTLY = 301;
@@ -197,6 +272,8 @@ export type MOVED_PERMANENTLY = 301;
  * 302 status code as if it were the 303.
  *
  * (Previously "Moved temporarily")
+ *
+ * [RFC 9110, Section 15.4.3](https://www.rfc-editor.org/rfc/rfc9110#section-15.4.3)
  */
 export const FOUND = 302;
 export type FOUND = 302;
@@ -208,6 +285,8 @@ export type FOUND = 302;
  * the data and should issue a new `GET` request to the given URI.
  *
  * Since HTTP/1.1
+ *
+ * [RFC 9110, Section 15.4.4](https://www.rfc-editor.org/rfc/rfc9110#section-15.4.4)
  */
 export const SEE_OTHER = 303;
 export type SEE_OTHER = 303;
@@ -218,7 +297,7 @@ export type SEE_OTHER = 303;
  * `If-None-Match`. In such case, there is no need to retransmit the
  * resource since the client still has a previously-downloaded copy.
  *
- * [RFC 7232](https://tools.ietf.org/html/rfc7232)
+ * [RFC 9110, Section 15.4.5](https://www.rfc-editor.org/rfc/rfc9110#section-15.4.5)
  */
 export const NOT_MODIFIED = 304;
 export type NOT_MODIFIED = 304;
@@ -228,6 +307,10 @@ export type NOT_MODIFIED = 304;
  * address for which is provided in the response. For security
  * reasons, many HTTP clients (such as Mozilla Firefox and Internet
  * Explorer) do not obey this status code.
+ *
+ * @deprecated RFC 9110 deprecates it for security reasons.
+ *
+ * [RFC 9110, Section 15.4.6](https://www.rfc-editor.org/rfc/rfc9110#section-15.4.6)
  */
 export const USE_PROXY = 305;
 export type USE_PROXY = 305;
@@ -235,6 +318,10 @@ export type USE_PROXY = 305;
 /**
  * No longer used. Originally meant "Subsequent requests should use
  * the specified proxy."
+ *
+ * @deprecated No longer used.
+ *
+ * [RFC 9110, Section 15.4.7](https://www.rfc-editor.org/rfc/rfc9110#section-15.4.7)
  */
 export const SWITCH_PROXY = 306;
 export type SWITCH_PROXY = 306;
@@ -248,6 +335,8 @@ export type SWITCH_PROXY = 306;
  * another `POST` request.
  *
  * Since HTTP/1.1
+ *
+ * [RFC 9110, Section 15.4.8](https://www.rfc-editor.org/rfc/rfc9110#section-15.4.8)
  */
 export const TEMPORARY_REDIRECT = 307;
 export type TEMPORARY_REDIRECT = 307;
@@ -257,6 +346,8 @@ export type TEMPORARY_REDIRECT = 307;
  * another URI. 307 and 308 parallel the behaviors of 302 and 301, but
  * do not allow the HTTP method to change. So, for example, submitting
  * a form to a permanently redirected resource may continue smoothly.
+ *
+ * [RFC 9110, Section 15.4.9](https://www.rfc-editor.org/rfc/rfc9110#section-15.4.9)
  */
 export const PERMANENT_REDIRECT = 308;
 export type PERMANENT_REDIRECT = 308;
@@ -283,11 +374,28 @@ export type Redirection =
   | TEMPORARY_REDIRECT
   | PERMANENT_REDIRECT;
 
+/**
+ * The redirection (3xx) status codes, keyed by name.
+ */
+export const Redirection = Object.freeze({
+  MULTIPLE_CHOICES,
+  MOVED_PERMANENTLY,
+  FOUND,
+  SEE_OTHER,
+  NOT_MODIFIED,
+  USE_PROXY,
+  SWITCH_PROXY,
+  TEMPORARY_REDIRECT,
+  PERMANENT_REDIRECT,
+} as const);
+
 /**
  * The server cannot or will not process the request due to an
  * apparent client error (e.g., malformed request syntax, size too
  * large, invalid request message framing, or deceptive request
  * routing).
+ *
+ * [RFC 9110, Section 15.5.1](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.1)
  */
 export const BAD_REQUEST = 400;
 export type BAD_REQUEST = 400;
@@ -304,10 +412,10 @@ export type BAD_REQUEST = 400;
  * banned from the website (usually the website domain) and that
  * specific address is refused permission to access a website.
  *
- * [RFC 7235](https://tools.ietf.org/html/rfc7235)
+ * [RFC 9110, Section 15.5.2](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.2)
  */
-export const UNAUTHORISED = 401;
-export type UNAUTHORISED = 401;
+export const UNAUTHORIZED = 401;
+export type UNAUTHORIZED = 401;
 
 /**
  * *Reserved for future use*. The original intention was that this
@@ -321,6 +429,8 @@ export type UNAUTHORISED = 401;
  * fees and is temporarily disabled. Stripe uses this code for failed
  * payments where parameters were correct, for example blocked
  * fraudulent payments.
+ *
+ * [RFC 9110, Section 15.5.3](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.3)
  */
 export const PAYMENT_REQUIRED = 402;
 export type PAYMENT_REQUIRED = 402;
@@ -334,6 +444,8 @@ export type PAYMENT_REQUIRED = 402;
  * code is also typically used if the request provided authentication
  * via the `WWW-Authenticate` header field, but the server did not
  * accept that authentication. The request should not be repeated.
+ *
+ * [RFC 9110, Section 15.5.4](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.4)
  */
 export const FORBIDDEN = 403;
 export type FORBIDDEN = 403;
@@ -341,6 +453,8 @@ export type FORBIDDEN = 403;
 /**
  * The requested resource could not be found but may be available in
  * the future. Subsequent requests by the client are permissible.
+ *
+ * [RFC 9110, Section 15.5.5](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.5)
  */
 export const NOT_FOUND = 404;
 export type NOT_FOUND = 404;
@@ -349,6 +463,8 @@ export type NOT_FOUND = 404;
  * A request method is not supported for the requested resource; for
  * example, a `GET` request on a form that requires data to be presented
  * via `POST`, or a `PUT` request on a read-only resource.
+ *
+ * [RFC 9110, Section 15.5.6](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.6)
  */
 export const METHOD_NOT_ALLOWED = 405;
 export type METHOD_NOT_ALLOWED = 405;
@@ -356,6 +472,8 @@ export type METHOD_NOT_ALLOWED = 405;
 /**
  * The requested resource is capable of generating only content not
  * acceptable according to the Accept headers sent in the request.
+ *
+ * [RFC 9110, Section 15.5.7](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.7)
  */
 export const NOT_ACCEPTABLE = 406;
 export type NOT_ACCEPTABLE = 406;
@@ -363,7 +481,7 @@ export type NOT_ACCEPTABLE = 406;
 /**
  * The client must first authenticate itself with the proxy.
  *
- * [RFC 7235](https://tools.ietf.org/html/rfc7235)
+ * [RFC 9110, Section 15.5.8](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.8)
  */
 export const PROXY_AUTHENTICATION_REQUIRED = 407;
 export type PROXY_AUTHENTICATION_REQUIRED = 407;
@@ -373,6 +491,8 @@ export type PROXY_AUTHENTICATION_REQUIRED = 407;
  * specifications: "The client did not produce a request within the
  * time that the server was prepared to wait. The client MAY repeat
  * the request without modifications at any later time."
+ *
+ * [RFC 9110, Section 15.5.9](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.9)
  */
 export const REQUEST_TIMEOUT = 408;
 export type REQUEST_TIMEOUT = 408;
@@ -381,6 +501,8 @@ export type REQUEST_TIMEOUT = 408;
  * Indicates that the request could not be processed because of
  * conflict in the current state of the resource, such as an edit
  * conflict between multiple simultaneous updates.
+ *
+ * [RFC 9110, Section 15.5.10](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.10)
  */
 export const CONFLICT = 409;
 export type CONFLICT = 409;
@@ -394,6 +516,8 @@ export type CONFLICT = 409;
  * should remove the resource from their indices. Most use cases do
  * not require clients and search engines to purge the resource, and a
  * "404 Not Found" may be used instead.
+ *
+ * [RFC 9110, Section 15.5.11](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.11)
  */
 export const GONE = 410;
 export type GONE = 410;
@@ -401,6 +525,8 @@ export type GONE = 410;
 /**
  * The request did not specify the length of its content, which is
  * required by the requested resource.
+ *
+ * [RFC 9110, Section 15.5.12](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.12)
  */
 export const LENGTH_REQUIRED = 411;
 export type LENGTH_REQUIRED = 411;
@@ -408,6 +534,8 @@ export type LENGTH_REQUIRED = 411;
 /**
  * The server does not meet one of the preconditions that the
  * requester put on the request header fields.
+ *
+ * [RFC 9110, Section 15.5.13](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.13)
  */
 export const PRECONDITION_FAILED = 412;
 export type PRECONDITION_FAILED = 412;
@@ -416,10 +544,10 @@ export type PRECONDITION_FAILED = 412;
  * The request is larger than the server is willing or able to
  * process. Previously called "Request Entity Too Large".
  *
- * [RFC 7232](https://tools.ietf.org/html/rfc7232)
+ * [RFC 9110, Section 15.5.14](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.14)
  */
-export const PAYLOAD_TOO_LARGE = 413;
-export type PAYLOAD_TOO_LARGE = 413;
+export const CONTENT_TOO_LARGE = 413;
+export type CONTENT_TOO_LARGE = 413;
 
 /**
  * The URI provided was too long for the server to process. Often the
@@ -427,7 +555,7 @@ export type PAYLOAD_TOO_LARGE = 413;
  * request, in which case it should be converted to a `POST`
  * request. Called "Request-URI Too Long" previously.
  *
- * [RFC 7231](https://tools.ietf.org/html/rfc7231)
+ * [RFC 9110, Section 15.5.15](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.15)
  */
 export const URI_TOO_LONG = 414;
 export type URI_TOO_LONG = 414;
@@ -438,7 +566,7 @@ export type URI_TOO_LONG = 414;
  * image/svg+xml, but the server requires that images use a different
  * format.
  *
- * [RFC 7231](https://tools.ietf.org/html/rfc7231)
+ * [RFC 9110, Section 15.5.16](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.16)
  */
 export const UNSUPPORTED_MEDIA_TYPE = 415;
 export type UNSUPPORTED_MEDIA_TYPE = 415;
@@ -449,7 +577,7 @@ export type UNSUPPORTED_MEDIA_TYPE = 415;
  * asked for a part of the file that lies beyond the end of the
  * file. Called "Requested Range Not Satisfiable" previously.
  *
- * [RFC 7233](https://tools.ietf.org/html/rfc7233)
+ * [RFC 9110, Section 15.5.17](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.17)
  */
 export const RANGE_NOT_SATISFIABLE = 416;
 export type RANGE_NOT_SATISFIABLE = 416;
@@ -457,6 +585,8 @@ export type RANGE_NOT_SATISFIABLE = 416;
 /**
  * The server cannot meet the requirements of the `Expect request-header`
  * field.
+ *
+ * [RFC 9110, Section 15.5.18](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.18)
  */
 export const EXPECTATION_FAILED = 417;
 export type EXPECTATION_FAILED = 417;
@@ -469,17 +599,16 @@ export type EXPECTATION_FAILED = 417;
  * brew coffee. This HTTP status is used as an Easter egg in some
  * websites, including Google.com.
  *
- * [RFC 2324](https://tools.ietf.org/html/rfc2324)
- * [RFC 7168](https://tools.ietf.org/html/rfc7168)
+ * [RFC 9110, Section 15.5.19](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.19)
  */
 export const IM_A_TEAPOT = 418;
 export type IM_A_TEAPOT = 418;
 
 /**
  * The request was directed at a server that is not able to produce a
- * response[56] (for example because of connection reuse).
+ * response (for example because of connection reuse).
  *
- * [RFC 7540](https://tools.ietf.org/html/rfc7540)
+ * [RFC 9110, Section 15.5.20](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.20)
  */
 export const MISDIRECTED_REQUEST = 421;
 export type MISDIRECTED_REQUEST = 421;
@@ -488,15 +617,15 @@ export type MISDIRECTED_REQUEST = 421;
  * The request was well-formed but was unable to be followed due to
  * semantic errors.
  *
- * [WebDAV, RFC 4918](https://tools.ietf.org/html/rfc4918)
+ * [RFC 9110, Section 15.5.21](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.21)
  */
-export const UNPROCESSABLE_ENTRY = 422;
-export type UNPROCESSABLE_ENTRY = 422;
+export const UNPROCESSABLE_CONTENT = 422;
+export type UNPROCESSABLE_CONTENT = 422;
 
 /**
  * The resource that is being accessed is locked.
  *
- * [WebDAV, RFC 4918](https://tools.ietf.org/html/rfc4918)
+ * [RFC 4918, Section 11.3](https://www.rfc-editor.org/rfc/rfc4918#section-11.3)
  */
 export const LOCKED = 423;
 export type LOCKED = 423;
@@ -505,7 +634,7 @@ export type LOCKED = 423;
  * The request failed because it depended on another request and that
  * request failed (e.g., a PROPPATCH).
  *
- * [WebDAV, RFC 4918](https://tools.ietf.org/html/rfc4918)
+ * [RFC 4918, Section 11.4](https://www.rfc-editor.org/rfc/rfc4918#section-11.4)
  */
 export const FAILED_DEPENDENCY = 424;
 export type FAILED_DEPENDENCY = 424;
@@ -514,7 +643,7 @@ export type FAILED_DEPENDENCY = 424;
  * Indicates that the server is unwilling to risk processing a request
  * that might be replayed.
  *
- * [RFC 8470](https://tools.ietf.org/html/rfc8470)
+ * [RFC 8470, Section 5.2](https://www.rfc-editor.org/rfc/rfc8470#section-5.2)
  */
 export const TOO_EARLY = 425;
 export type TOO_EARLY = 425;
@@ -522,6 +651,8 @@ export type TOO_EARLY = 425;
 /**
  * The client should switch to a different protocol such as TLS/1.0,
  * given in the Upgrade header field.
+ *
+ * [RFC 9110, Section 15.5.22](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.22)
  */
 export const UPGRADE_REQUIRED = 426;
 export type UPGRADE_REQUIRED = 426;
@@ -533,7 +664,7 @@ export type UPGRADE_REQUIRED = 426;
  * meanwhile a third party has modified the state on the server,
  * leading to a conflict.
  *
- * [RFC 6585](https://tools.ietf.org/html/rfc6585)
+ * [RFC 6585, Section 3](https://www.rfc-editor.org/rfc/rfc6585#section-3)
  */
 export const PRECONDITION_REQUIRED = 428;
 export type PRECONDITION_REQUIRED = 428;
@@ -542,7 +673,7 @@ export type PRECONDITION_REQUIRED = 428;
  * The user has sent too many requests in a given amount of
  * time. Intended for use with rate-limiting schemes.
  *
- * [RFC 6585](https://tools.ietf.org/html/rfc6585)
+ * [RFC 6585, Section 4](https://www.rfc-editor.org/rfc/rfc6585#section-4)
  */
 export const TOO_MANY_REQUESTS = 429;
 export type TOO_MANY_REQUESTS = 429;
@@ -552,7 +683,7 @@ export type TOO_MANY_REQUESTS = 429;
  * individual header field, or all the header fields collectively, are
  * too large.
  *
- * [RFC 6585](https://tools.ietf.org/html/rfc6585)
+ * [RFC 6585, Section 5](https://www.rfc-editor.org/rfc/rfc6585#section-5)
  */
 export const REQUEST_HEADER_FIELDS_TOO_LARGE = 431;
 export type REQUEST_HEADER_FIELDS_TOO_LARGE = 431;
@@ -563,7 +694,7 @@ export type REQUEST_HEADER_FIELDS_TOO_LARGE = 431;
  * resource. The code 451 was chosen as a reference to the novel
  * Fahrenheit 451 (see the Acknowledgements in the RFC).
  *
- * [RFC 6585](https://tools.ietf.org/html/rfc6585)
+ * [RFC 7725, Section 3](https://www.rfc-editor.org/rfc/rfc7725#section-3)
  */
 export const UNAVAILABLE_FOR_LEGAL_REASONS = 451;
 export type UNAVAILABLE_FOR_LEGAL_REASONS = 451;
@@ -579,7 +710,7 @@ export type UNAVAILABLE_FOR_LEGAL_REASONS = 451;
  */
 export type ClientError =
   | BAD_REQUEST
-  | UNAUTHORISED
+  | UNAUTHORIZED
   | PAYMENT_REQUIRED
   | FORBIDDEN
   | NOT_FOUND
@@ -591,14 +722,14 @@ export type ClientError =
   | GONE
   | LENGTH_REQUIRED
   | PRECONDITION_FAILED
-  | PAYLOAD_TOO_LARGE
+  | CONTENT_TOO_LARGE
   | URI_TOO_LONG
   | UNSUPPORTED_MEDIA_TYPE
   | RANGE_NOT_SATISFIABLE
   | EXPECTATION_FAILED
   | IM_A_TEAPOT
   | MISDIRECTED_REQUEST
-  | UNPROCESSABLE_ENTRY
+  | UNPROCESSABLE_CONTENT
   | LOCKED
   | FAILED_DEPENDENCY
   | TOO_EARLY
@@ -608,9 +739,56 @@ export type ClientError =
   | REQUEST_HEADER_FIELDS_TOO_LARGE
   | UNAVAILABLE_FOR_LEGAL_REASONS;
 
+/**
+ * The client error (4xx) status codes, keyed by name.
+ */
+export const ClientError = withDeprecatedNames(
+  {
+    BAD_REQUEST,
+    UNAUTHORIZED,
+    PAYMENT_REQUIRED,
+    FORBIDDEN,
+    NOT_FOUND,
+    METHOD_NOT_ALLOWED,
+    NOT_ACCEPTABLE,
+    PROXY_AUTHENTICATION_REQUIRED,
+    REQUEST_TIMEOUT,
+    CONFLICT,
+    GONE,
+    LENGTH_REQUIRED,
+    PRECONDITION_FAILED,
+    CONTENT_TOO_LARGE,
+    URI_TOO_LONG,
+    UNSUPPORTED_MEDIA_TYPE,
+    RANGE_NOT_SATISFIABLE,
+    EXPECTATION_FAILED,
+    IM_A_TEAPOT,
+    MISDIRECTED_REQUEST,
+    UNPROCESSABLE_CONTENT,
+    LOCKED,
+    FAILED_DEPENDENCY,
+    TOO_EARLY,
+    UPGRADE_REQUIRED,
+    PRECONDITION_REQUIRED,
+    TOO_MANY_REQUESTS,
+    REQUEST_HEADER_FIELDS_TOO_LARGE,
+    UNAVAILABLE_FOR_LEGAL_REASONS,
+  } as const,
+  {
+    /** @deprecated Use `UNAUTHORIZED`. */
+    UNAUTHORISED: UNAUTHORIZED,
+    /** @deprecated Use `CONTENT_TOO_LARGE`. */
+    PAYLOAD_TOO_LARGE: CONTENT_TOO_LARGE,
+    /** @deprecated Use `UNPROCESSABLE_CONTENT`. */
+    UNPROCESSABLE_ENTRY: UNPROCESSABLE_CONTENT,
+  } as const
+);
+
 /**
  * A generic error message, given when an unexpected condition was
  * encountered and no more specific message is suitable.
+ *
+ * [RFC 9110, Section 15.6.1](https://www.rfc-editor.org/rfc/rfc9110#section-15.6.1)
  */
 export const INTERNAL_SERVER_ERROR = 500;
 export type INTERNAL_SERVER_ERROR = 500;
@@ -619,6 +797,8 @@ export type INTERNAL_SERVER_ERROR = 500;
  * The server either does not recognize the request method, or it
  * lacks the ability to fulfil the request. Usually this implies
  * future availability (e.g., a new feature of a web-service API).
+ *
+ * [RFC 9110, Section 15.6.2](https://www.rfc-editor.org/rfc/rfc9110#section-15.6.2)
  */
 export const NOT_IMPLEMENTED = 501;
 export type NOT_IMPLEMENTED = 501;
@@ -626,6 +806,8 @@ export type NOT_IMPLEMENTED = 501;
 /**
  * The server was acting as a gateway or proxy and received an invalid
  * response from the upstream server.
+ *
+ * [RFC 9110, Section 15.6.3](https://www.rfc-editor.org/rfc/rfc9110#section-15.6.3)
  */
 export const BAD_GATEWAY = 502;
 export type BAD_GATEWAY = 502;
@@ -633,6 +815,8 @@ export type BAD_GATEWAY = 502;
 /**
  * The server cannot handle the request (because it is overloaded or
  * down for maintenance). Generally, this is a temporary state.
+ *
+ * [RFC 9110, Section 15.6.4](https://www.rfc-editor.org/rfc/rfc9110#section-15.6.4)
  */
 export const SERVICE_UNAVAILABLE = 503;
 export type SERVICE_UNAVAILABLE = 503;
@@ -640,6 +824,8 @@ export type SERVICE_UNAVAILABLE = 503;
 /**
  * The server was acting as a gateway or proxy and did not receive a
  * timely response from the upstream server.
+ *
+ * [RFC 9110, Section 15.6.5](https://www.rfc-editor.org/rfc/rfc9110#section-15.6.5)
  */
 export const GATEWAY_TIMEOUT = 504;
 export type GATEWAY_TIMEOUT = 504;
@@ -647,6 +833,8 @@ export type GATEWAY_TIMEOUT = 504;
 /**
  * The server does not support the HTTP protocol version used in the
  * request.
+ *
+ * [RFC 9110, Section 15.6.6](https://www.rfc-editor.org/rfc/rfc9110#section-15.6.6)
  */
 export const HTTP_VERSION_NOT_SUPPORTED = 505;
 export type HTTP_VERSION_NOT_SUPPORTED = 505;
@@ -655,7 +843,7 @@ export type HTTP_VERSION_NOT_SUPPORTED = 505;
  * Transparent content negotiation for the request results in a
  * circular reference.
  *
- * [RFC 2295](https://tools.ietf.org/html/rfc2295)
+ * [RFC 2295, Section 8.1](https://www.rfc-editor.org/rfc/rfc2295#section-8.1)
  */
 export const VARIANT_ALSO_NEGOTIATES = 506;
 export type VARIANT_ALSO_NEGOTIATES = 506;
@@ -664,7 +852,7 @@ export type VARIANT_ALSO_NEGOTIATES = 506;
  * The server is unable to store the representation needed to complete
  * the request.
  *
- * [WebDAV, RFC 4918](https://tools.ietf.org/html/rfc4918)
+ * [RFC 4918, Section 11.5](https://www.rfc-editor.org/rfc/rfc4918#section-11.5)
  */
 export const INSUFFICIENT_STORAGE = 507;
 export type INSUFFICIENT_STORAGE = 507;
@@ -673,7 +861,7 @@ export type INSUFFICIENT_STORAGE = 507;
  * The server detected an infinite loop while processing the request
  * (sent instead of `208 Already Reported`).
  *
- * [WebDAV, RFC 5842](https://tools.ietf.org/html/rfc5842)
+ * [RFC 5842, Section 7.2](https://www.rfc-editor.org/rfc/rfc5842#section-7.2)
  */
 export const LOOP_DETECTED = 508;
 export type LOOP_DETECTED = 508;
@@ -682,7 +870,7 @@ export type LOOP_DETECTED = 508;
  * Further extensions to the request are required for the server to
  * fulfil it.
  *
- * [RFC 2774](https://tools.ietf.org/html/rfc2774)
+ * [RFC 2774, Section 7](https://www.rfc-editor.org/rfc/rfc2774#section-7)
  */
 export const NOT_EXTENDED = 510;
 export type NOT_EXTENDED = 510;
@@ -694,7 +882,7 @@ export type NOT_EXTENDED = 510;
  * of Service before granting full Internet access via a Wi-Fi
  * hotspot).
  *
- * [RFC 2295](https://tools.ietf.org/html/rfc2295)
+ * [RFC 6585, Section 6](https://www.rfc-editor.org/rfc/rfc6585#section-6)
  */
 export const NETWORK_AUTHENTICATION_REQUIRED = 511;
 export type NETWORK_AUTHENTICATION_REQUIRED = 511;
@@ -724,6 +912,23 @@ export type ServerError =
   | NOT_EXTENDED
   | NETWORK_AUTHENTICATION_REQUIRED;
 
+/**
+ * The server error (5xx) status codes, keyed by name.
+ */
+export const ServerError = Object.freeze({
+  INTERNAL_SERVER_ERROR,
+  NOT_IMPLEMENTED,
+  BAD_GATEWAY,
+  SERVICE_UNAVAILABLE,
+  GATEWAY_TIMEOUT,
+  HTTP_VERSION_NOT_SUPPORTED,
+  VARIANT_ALSO_NEGOTIATES,
+  INSUFFICIENT_STORAGE,
+  LOOP_DETECTED,
+  NOT_EXTENDED,
+  NETWORK_AUTHENTICATION_REQUIRED,
+} as const);
+
 /**
  * An official HTTP status code.
  */
@@ -733,3 +938,1002 @@ export type HTTPStatus =
   | Redirection
   | ClientError
   | ServerError;
+
+// The reason phrases and references follow the IANA HTTP Status Code
+// Registry (https://www.iana.org/assignments/http-status-codes), and
+// the semantic flags follow RFC 9110 and RFC 9111 (see `StatusInfo`).
+// The codes themselves are taken from the constants above: the check
+// below the table fails to compile if a name and its code disagree.
+const STATUS_TABLE = {
+  [CONTINUE]: {
+    name: "CONTINUE",
+    reason: "Continue",
+    rfc: "RFC 9110",
+    section: "15.2.1",
+    deprecated: false,
+    cacheable: false,
+    bodyless: true,
+    retryable: "never",
+  },
+  [SWITCHING_PROTOCOLS]: {
+    name: "SWITCHING_PROTOCOLS",
+    reason: "Switching Protocols",
+    rfc: "RFC 9110",
+    section: "15.2.2",
+    deprecated: false,
+    cacheable: false,
+    bodyless: true,
+    retryable: "never",
+  },
+  [PROCESSING]: {
+    name: "PROCESSING",
+    reason: "Processing",
+    rfc: "RFC 2518",
+    section: "10.1",
+    deprecated: false,
+    cacheable: false,
+    bodyless: true,
+    retryable: "never",
+  },
+  [EARLY_HINTS]: {
+    name: "EARLY_HINTS",
+    reason: "Early Hints",
+    rfc: "RFC 8297",
+    section: "2",
+    deprecated: false,
+    cacheable: false,
+    bodyless: true,
+    retryable: "never",
+  },
+  [OK]: {
+    name: "OK",
+    reason: "OK",
+    rfc: "RFC 9110",
+    section: "15.3.1",
+    deprecated: false,
+    cacheable: true,
+    bodyless: false,
+    retryable: "never",
+  },
+  [CREATED]: {
+    name: "CREATED",
+    reason: "Created",
+    rfc: "RFC 9110",
+    section: "15.3.2",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [ACCEPTED]: {
+    name: "ACCEPTED",
+    reason: "Accepted",
+    rfc: "RFC 9110",
+    section: "15.3.3",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [NON_AUTHORITATIVE_INFORMATION]: {
+    name: "NON_AUTHORITATIVE_INFORMATION",
+    reason: "Non-Authoritative Information",
+    rfc: "RFC 9110",
+    section: "15.3.4",
+    deprecated: false,
+    cacheable: true,
+    bodyless: false,
+    retryable: "never",
+  },
+  [NO_CONTENT]: {
+    name: "NO_CONTENT",
+    reason: "No Content",
+    rfc: "RFC 9110",
+    section: "15.3.5",
+    deprecated: false,
+    cacheable: true,
+    bodyless: true,
+    retryable: "never",
+  },
+  [RESET_CONTENT]: {
+    name: "RESET_CONTENT",
+    reason: "Reset Content",
+    rfc: "RFC 9110",
+    section: "15.3.6",
+    deprecated: false,
+    cacheable: false,
+    bodyless: true,
+    retryable: "never",
+  },
+  [PARTIAL_CONTENT]: {
+    name: "PARTIAL_CONTENT",
+    reason: "Partial Content",
+    rfc: "RFC 9110",
+    section: "15.3.7",
+    deprecated: false,
+    cacheable: true,
+    bodyless: false,
+    retryable: "never",
+  },
+  [MULTI_STATUS]: {
+    name: "MULTI_STATUS",
+    reason: "Multi-Status",
+    rfc: "RFC 4918",
+    section: "11.1",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [ALREADY_REPORTED]: {
+    name: "ALREADY_REPORTED",
+    reason: "Already Reported",
+    rfc: "RFC 5842",
+    section: "7.1",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [IM_USED]: {
+    name: "IM_USED",
+    reason: "IM Used",
+    rfc: "RFC 3229",
+    section: "10.4.1",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [MULTIPLE_CHOICES]: {
+    name: "MULTIPLE_CHOICES",
+    reason: "Multiple Choices",
+    rfc: "RFC 9110",
+    section: "15.4.1",
+    deprecated: false,
+    cacheable: true,
+    bodyless: false,
+    retryable: "never",
+  },
+  [MOVED_PERMANENTLY]: {
+    name: "MOVED_PERMANENTLY",
+    reason: "Moved Permanently",
+    rfc: "RFC 9110",
+    section: "15.4.2",
+    deprecated: false,
+    cacheable: true,
+    bodyless: false,
+    retryable: "never",
+  },
+  [FOUND]: {
+    name: "FOUND",
+    reason: "Found",
+    rfc: "RFC 9110",
+    section: "15.4.3",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [SEE_OTHER]: {
+    name: "SEE_OTHER",
+    reason: "See Other",
+    rfc: "RFC 9110",
+    section: "15.4.4",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [NOT_MODIFIED]: {
+    name: "NOT_MODIFIED",
+    reason: "Not Modified",
+    rfc: "RFC 9110",
+    section: "15.4.5",
+    deprecated: false,
+    cacheable: false,
+    bodyless: true,
+    retryable: "never",
+  },
+  [USE_PROXY]: {
+    name: "USE_PROXY",
+    reason: "Use Proxy",
+    rfc: "RFC 9110",
+    section: "15.4.6",
+    deprecated: true,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [SWITCH_PROXY]: {
+    name: "SWITCH_PROXY",
+    reason: "Switch Proxy",
+    rfc: "RFC 9110",
+    section: "15.4.7",
+    deprecated: true,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [TEMPORARY_REDIRECT]: {
+    name: "TEMPORARY_REDIRECT",
+    reason: "Temporary Redirect",
+    rfc: "RFC 9110",
+    section: "15.4.8",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [PERMANENT_REDIRECT]: {
+    name: "PERMANENT_REDIRECT",
+    reason: "Permanent Redirect",
+    rfc: "RFC 9110",
+    section: "15.4.9",
+    deprecated: false,
+    cacheable: true,
+    bodyless: false,
+    retryable: "never",
+  },
+  [BAD_REQUEST]: {
+    name: "BAD_REQUEST",
+    reason: "Bad Request",
+    rfc: "RFC 9110",
+    section: "15.5.1",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [UNAUTHORIZED]: {
+    name: "UNAUTHORIZED",
+    reason: "Unauthorized",
+    rfc: "RFC 9110",
+    section: "15.5.2",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [PAYMENT_REQUIRED]: {
+    name: "PAYMENT_REQUIRED",
+    reason: "Payment Required",
+    rfc: "RFC 9110",
+    section: "15.5.3",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [FORBIDDEN]: {
+    name: "FORBIDDEN",
+    reason: "Forbidden",
+    rfc: "RFC 9110",
+    section: "15.5.4",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [NOT_FOUND]: {
+    name: "NOT_FOUND",
+    reason: "Not Found",
+    rfc: "RFC 9110",
+    section: "15.5.5",
+    deprecated: false,
+    cacheable: true,
+    bodyless: false,
+    retryable: "never",
+  },
+  [METHOD_NOT_ALLOWED]: {
+    name: "METHOD_NOT_ALLOWED",
+    reason: "Method Not Allowed",
+    rfc: "RFC 9110",
+    section: "15.5.6",
+    deprecated: false,
+    cacheable: true,
+    bodyless: false,
+    retryable: "never",
+  },
+  [NOT_ACCEPTABLE]: {
+    name: "NOT_ACCEPTABLE",
+    reason: "Not Acceptable",
+    rfc: "RFC 9110",
+    section: "15.5.7",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [PROXY_AUTHENTICATION_REQUIRED]: {
+    name: "PROXY_AUTHENTICATION_REQUIRED",
+    reason: "Proxy Authentication Required",
+    rfc: "RFC 9110",
+    section: "15.5.8",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [REQUEST_TIMEOUT]: {
+    name: "REQUEST_TIMEOUT",
+    reason: "Request Timeout",
+    rfc: "RFC 9110",
+    section: "15.5.9",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "always",
+  },
+  [CONFLICT]: {
+    name: "CONFLICT",
+    reason: "Conflict",
+    rfc: "RFC 9110",
+    section: "15.5.10",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [GONE]: {
+    name: "GONE",
+    reason: "Gone",
+    rfc: "RFC 9110",
+    section: "15.5.11",
+    deprecated: false,
+    cacheable: true,
+    bodyless: false,
+    retryable: "never",
+  },
+  [LENGTH_REQUIRED]: {
+    name: "LENGTH_REQUIRED",
+    reason: "Length Required",
+    rfc: "RFC 9110",
+    section: "15.5.12",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [PRECONDITION_FAILED]: {
+    name: "PRECONDITION_FAILED",
+    reason: "Precondition Failed",
+    rfc: "RFC 9110",
+    section: "15.5.13",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [CONTENT_TOO_LARGE]: {
+    name: "CONTENT_TOO_LARGE",
+    reason: "Content Too Large",
+    rfc: "RFC 9110",
+    section: "15.5.14",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [URI_TOO_LONG]: {
+    name: "URI_TOO_LONG",
+    reason: "URI Too Long",
+    rfc: "RFC 9110",
+    section: "15.5.15",
+    deprecated: false,
+    cacheable: true,
+    bodyless: false,
+    retryable: "never",
+  },
+  [UNSUPPORTED_MEDIA_TYPE]: {
+    name: "UNSUPPORTED_MEDIA_TYPE",
+    reason: "Unsupported Media Type",
+    rfc: "RFC 9110",
+    section: "15.5.16",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [RANGE_NOT_SATISFIABLE]: {
+    name: "RANGE_NOT_SATISFIABLE",
+    reason: "Range Not Satisfiable",
+    rfc: "RFC 9110",
+    section: "15.5.17",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [EXPECTATION_FAILED]: {
+    name: "EXPECTATION_FAILED",
+    reason: "Expectation Failed",
+    rfc: "RFC 9110",
+    section: "15.5.18",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [IM_A_TEAPOT]: {
+    name: "IM_A_TEAPOT",
+    reason: "I'm a teapot",
+    rfc: "RFC 9110",
+    section: "15.5.19",
+    deprecated: true,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [MISDIRECTED_REQUEST]: {
+    name: "MISDIRECTED_REQUEST",
+    reason: "Misdirected Request",
+    rfc: "RFC 9110",
+    section: "15.5.20",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [UNPROCESSABLE_CONTENT]: {
+    name: "UNPROCESSABLE_CONTENT",
+    reason: "Unprocessable Content",
+    rfc: "RFC 9110",
+    section: "15.5.21",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [LOCKED]: {
+    name: "LOCKED",
+    reason: "Locked",
+    rfc: "RFC 4918",
+    section: "11.3",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [FAILED_DEPENDENCY]: {
+    name: "FAILED_DEPENDENCY",
+    reason: "Failed Dependency",
+    rfc: "RFC 4918",
+    section: "11.4",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [TOO_EARLY]: {
+    name: "TOO_EARLY",
+    reason: "Too Early",
+    rfc: "RFC 8470",
+    section: "5.2",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "always",
+  },
+  [UPGRADE_REQUIRED]: {
+    name: "UPGRADE_REQUIRED",
+    reason: "Upgrade Required",
+    rfc: "RFC 9110",
+    section: "15.5.22",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [PRECONDITION_REQUIRED]: {
+    name: "PRECONDITION_REQUIRED",
+    reason: "Precondition Required",
+    rfc: "RFC 6585",
+    section: "3",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [TOO_MANY_REQUESTS]: {
+    name: "TOO_MANY_REQUESTS",
+    reason: "Too Many Requests",
+    rfc: "RFC 6585",
+    section: "4",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "always",
+  },
+  [REQUEST_HEADER_FIELDS_TOO_LARGE]: {
+    name: "REQUEST_HEADER_FIELDS_TOO_LARGE",
+    reason: "Request Header Fields Too Large",
+    rfc: "RFC 6585",
+    section: "5",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [UNAVAILABLE_FOR_LEGAL_REASONS]: {
+    name: "UNAVAILABLE_FOR_LEGAL_REASONS",
+    reason: "Unavailable For Legal Reasons",
+    rfc: "RFC 7725",
+    section: "3",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [INTERNAL_SERVER_ERROR]: {
+    name: "INTERNAL_SERVER_ERROR",
+    reason: "Internal Server Error",
+    rfc: "RFC 9110",
+    section: "15.6.1",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [NOT_IMPLEMENTED]: {
+    name: "NOT_IMPLEMENTED",
+    reason: "Not Implemented",
+    rfc: "RFC 9110",
+    section: "15.6.2",
+    deprecated: false,
+    cacheable: true,
+    bodyless: false,
+    retryable: "never",
+  },
+  [BAD_GATEWAY]: {
+    name: "BAD_GATEWAY",
+    reason: "Bad Gateway",
+    rfc: "RFC 9110",
+    section: "15.6.3",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "idempotent",
+  },
+  [SERVICE_UNAVAILABLE]: {
+    name: "SERVICE_UNAVAILABLE",
+    reason: "Service Unavailable",
+    rfc: "RFC 9110",
+    section: "15.6.4",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "always",
+  },
+  [GATEWAY_TIMEOUT]: {
+    name: "GATEWAY_TIMEOUT",
+    reason: "Gateway Timeout",
+    rfc: "RFC 9110",
+    section: "15.6.5",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "idempotent",
+  },
+  [HTTP_VERSION_NOT_SUPPORTED]: {
+    name: "HTTP_VERSION_NOT_SUPPORTED",
+    reason: "HTTP Version Not Supported",
+    rfc: "RFC 9110",
+    section: "15.6.6",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [VARIANT_ALSO_NEGOTIATES]: {
+    name: "VARIANT_ALSO_NEGOTIATES",
+    reason: "Variant Also Negotiates",
+    rfc: "RFC 2295",
+    section: "8.1",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [INSUFFICIENT_STORAGE]: {
+    name: "INSUFFICIENT_STORAGE",
+    reason: "Insufficient Storage",
+    rfc: "RFC 4918",
+    section: "11.5",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [LOOP_DETECTED]: {
+    name: "LOOP_DETECTED",
+    reason: "Loop Detected",
+    rfc: "RFC 5842",
+    section: "7.2",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [NOT_EXTENDED]: {
+    name: "NOT_EXTENDED",
+    reason: "Not Extended",
+    rfc: "RFC 2774",
+    section: "7",
+    deprecated: true,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+  [NETWORK_AUTHENTICATION_REQUIRED]: {
+    name: "NETWORK_AUTHENTICATION_REQUIRED",
+    reason: "Network Authentication Required",
+    rfc: "RFC 6585",
+    section: "6",
+    deprecated: false,
+    cacheable: false,
+    bodyless: false,
+    retryable: "never",
+  },
+} as const;
+// END GENERATED
+
+/**
+ * @deprecated Use `UNAUTHORIZED`, the spelling of RFC 9110.
+ */
+export const UNAUTHORISED = UNAUTHORIZED;
+export type UNAUTHORISED = UNAUTHORIZED;
+
+/**
+ * @deprecated Use `CONTENT_TOO_LARGE`, the name RFC 9110 gives 413.
+ */
+export const PAYLOAD_TOO_LARGE = CONTENT_TOO_LARGE;
+export type PAYLOAD_TOO_LARGE = CONTENT_TOO_LARGE;
+
+/**
+ * @deprecated Use `UNPROCESSABLE_CONTENT`, the name RFC 9110 gives
+ * 422.
+ */
+export const UNPROCESSABLE_ENTRY = UNPROCESSABLE_CONTENT;
+export type UNPROCESSABLE_ENTRY = UNPROCESSABLE_CONTENT;
+
+/**
+ * The deprecated names of constants, each mapped to the name to use
+ * instead.
+ */
+export const DEPRECATED_NAMES = Object.freeze({
+  UNAUTHORISED: "UNAUTHORIZED",
+  PAYLOAD_TOO_LARGE: "CONTENT_TOO_LARGE",
+  UNPROCESSABLE_ENTRY: "UNPROCESSABLE_CONTENT",
+} as const);
+
+/**
+ * The name of a class of status codes, as given by the first digit of
+ * the code.
+ */
+export type StatusCategory =
+  | "Informational"
+  | "Success"
+  | "Redirection"
+  | "ClientError"
+  | "ServerError";
+
+type StatusTable = typeof STATUS_TABLE;
+
+// Compile-time checks: the category objects hold exactly the members
+// of their unions, deprecated names hold the same codes as their
+// replacements, the table covers exactly the `HTTPStatus` union, and
+// every entry names the constant holding its code.
+type ValueOf<T> = T[keyof T];
+type Exactly<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+type Module = typeof import("./HTTPStatusCodes");
+const CATEGORY_OBJECTS_MATCH_UNIONS: Exactly<
+  [
+    Exactly<ValueOf<typeof Informational>, Informational>,
+    Exactly<ValueOf<typeof Success>, Success>,
+    Exactly<ValueOf<typeof Redirection>, Redirection>,
+    Exactly<ValueOf<typeof ClientError>, ClientError>,
+    Exactly<ValueOf<typeof ServerError>, ServerError>
+  ][number],
+  true
+> = true;
+const DEPRECATED_NAMES_MATCH_CODES: Exactly<
+  {
+    [N in keyof typeof DEPRECATED_NAMES]: Exactly<
+      Module[N],
+      Module[(typeof DEPRECATED_NAMES)[N]]
+    >;
+  }[keyof typeof DEPRECATED_NAMES],
+  true
+> = true;
+const TABLE_COVERS_HTTP_STATUS: Exactly<keyof StatusTable, HTTPStatus> = true;
+const TABLE_NAMES_MATCH_CODES: Exactly<
+  { [S in HTTPStatus]: Exactly<Module[StatusTable[S]["name"]], S> }[HTTPStatus],
+  true
+> = true;
+
+/**
+ * The name of the constant exported for a status code, e.g.
+ * `"NOT_FOUND"` for `404`.
+ */
+export type StatusName<S extends HTTPStatus = HTTPStatus> =
+  StatusTable[S]["name"];
+
+/**
+ * The canonical reason phrase of a status code, e.g. `"Not Found"`
+ * for `404`.
+ */
+export type ReasonPhrase<S extends HTTPStatus = HTTPStatus> =
+  StatusTable[S]["reason"];
+
+/**
+ * When a request answered with a status code may be retried as is:
+ *
+ *  - `"always"`: the server did not act on the request, so any
+ *    request may be retried (e.g. `429 Too Many Requests`);
+ *  - `"idempotent"`: the request may have been acted on, so only
+ *    requests with idempotent methods may be retried (e.g. `502 Bad
+ *    Gateway`);
+ *  - `"never"`: retrying the same request will not help.
+ */
+export type Retryability = "always" | "idempotent" | "never";
+
+/**
+ * Runtime metadata about a status code.
+ */
+export interface StatusInfo<S extends HTTPStatus = HTTPStatus> {
+  /** The numeric code. */
+  readonly code: S;
+  /** The name of the constant exported for the code. */
+  readonly name: StatusName<S>;
+  /** The canonical reason phrase, as registered with IANA. */
+  readonly reason: ReasonPhrase<S>;
+  /** The class of the code, given by its first digit. */
+  readonly category: StatusCategory;
+  /** The document defining the code, e.g. `"RFC 9110"`. */
+  readonly rfc: string;
+  /** The section of `rfc` defining the code, or `""` if unknown. */
+  readonly section: string;
+  /** Whether the code is deprecated, obsolete or no longer used. */
+  readonly deprecated: boolean;
+  /**
+   * Whether a response with the code is heuristically cacheable, that
+   * is, may be cached without explicit freshness information (RFC
+   * 9110 section 15.1, RFC 9111 section 4.2.2).
+   */
+  readonly cacheable: boolean;
+  /** Whether a response with the code must not have content. */
+  readonly bodyless: boolean;
+  /** When a request answered with the code may be retried. */
+  readonly retryable: Retryability;
+}
+
+const CATEGORIES: readonly StatusCategory[] = [
+  "Informational",
+  "Success",
+  "Redirection",
+  "ClientError",
+  "ServerError",
+];
+
+// The class a three-digit code falls in, by its first digit.
+function categoryOfRange(code: number): StatusCategory {
+  return CATEGORIES[Math.floor(code / 100) - 1];
+}
+
+/**
+ * The metadata of every official status code, keyed by code.
+ *
+ * For example:
+ *
+ * ``` js
+ * HTTP.STATUS_REGISTRY[HTTP.NOT_FOUND].reason === "Not Found";
+ * ```
+ */
+export const STATUS_REGISTRY: {
+  readonly [S in HTTPStatus]: StatusInfo<S>;
+} = (() => {
+  const registry: { [code: number]: StatusInfo } = {};
+  for (const key of Object.keys(STATUS_TABLE)) {
+    const code = Number(key) as HTTPStatus;
+    registry[code] = Object.freeze({
+      code,
+      category: categoryOfRange(code),
+      ...STATUS_TABLE[code],
+    });
+  }
+  return Object.freeze(registry) as {
+    readonly [S in HTTPStatus]: StatusInfo<S>;
+  };
+})();
+
+/**
+ * Every official status code, in ascending order.
+ */
+export const ALL_STATUSES: readonly HTTPStatus[] = Object.freeze(
+  Object.keys(STATUS_TABLE).map((key) => Number(key) as HTTPStatus)
+);
+
+/**
+ * Whether `status` is an official HTTP status code.
+ */
+export function isHTTPStatus(status: number): status is HTTPStatus {
+  return Object.prototype.hasOwnProperty.call(STATUS_REGISTRY, status);
+}
+
+/**
+ * Whether `status` is an official informational (1xx) status code.
+ */
+export function isInformational(status: number): status is Informational {
+  return (
+    isHTTPStatus(status) && STATUS_REGISTRY[status].category === "Informational"
+  );
+}
+
+/**
+ * Whether `status` is an official successful (2xx) status code.
+ */
+export function isSuccess(status: number): status is Success {
+  return isHTTPStatus(status) && STATUS_REGISTRY[status].category === "Success";
+}
+
+/**
+ * Whether `status` is an official redirection (3xx) status code.
+ */
+export function isRedirection(status: number): status is Redirection {
+  return (
+    isHTTPStatus(status) && STATUS_REGISTRY[status].category === "Redirection"
+  );
+}
+
+/**
+ * Whether `status` is an official client error (4xx) status code.
+ */
+export function isClientError(status: number): status is ClientError {
+  return (
+    isHTTPStatus(status) && STATUS_REGISTRY[status].category === "ClientError"
+  );
+}
+
+/**
+ * Whether `status` is an official server error (5xx) status code.
+ */
+export function isServerError(status: number): status is ServerError {
+  return (
+    isHTTPStatus(status) && STATUS_REGISTRY[status].category === "ServerError"
+  );
+}
+
+/**
+ * Options for `classify`.
+ */
+export interface ClassifyOptions {
+  /**
+   * Classify codes that are not official by their first digit, as
+   * RFC 9110 section 15 requires of clients that do not recognise a
+   * code. For example, `499` is then a `"ClientError"`. Only integers
+   * from 100 to 599 are classified. Defaults to `false`.
+   */
+  readonly byRange?: boolean;
+}
+
+/**
+ * The class of `status`, or `undefined` if it is not an official
+ * status code (or, with `byRange`, not a three-digit code from 100 to
+ * 599).
+ */
+export function classify(
+  status: number,
+  options: ClassifyOptions = {}
+): StatusCategory | undefined {
+  if (isHTTPStatus(status)) {
+    return STATUS_REGISTRY[status].category;
+  }
+  if (
+    options.byRange &&
+    Number.isInteger(status) &&
+    status >= 100 &&
+    status <= 599
+  ) {
+    return categoryOfRange(status);
+  }
+  return undefined;
+}
+
+/**
+ * The name of the constant exported for `status`, e.g. `"NOT_FOUND"`
+ * for `404`, or `undefined` if `status` is not an official status
+ * code.
+ */
+export function nameOf<S extends HTTPStatus>(status: S): StatusName<S>;
+export function nameOf(status: number): StatusName | undefined;
+export function nameOf(status: number): StatusName | undefined {
+  return isHTTPStatus(status) ? STATUS_REGISTRY[status].name : undefined;
+}
+
+/**
+ * The canonical reason phrase of `status`, e.g. `"Not Found"` for
+ * `404`, or `undefined` if `status` is not an official status code.
+ */
+export function reasonOf<S extends HTTPStatus>(status: S): ReasonPhrase<S>;
+export function reasonOf(status: number): ReasonPhrase | undefined;
+export function reasonOf(status: number): ReasonPhrase | undefined {
+  return isHTTPStatus(status) ? STATUS_REGISTRY[status].reason : undefined;
+}
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "TRACE", "PUT", "DELETE"];
+
+/**
+ * Whether `method` is idempotent (RFC 9110 section 9.2.2), so that a
+ * request using it may be repeated with the same effect. Methods are
+ * case-sensitive.
+ */
+export function isIdempotent(method: string): boolean {
+  return IDEMPOTENT_METHODS.indexOf(method) >= 0;
+}
+
+/**
+ * Whether a response with `status` may be cached without explicit
+ * freshness information (RFC 9111 section 4.2.2). Codes that are not
+ * official are not.
+ */
+export function isCacheableByDefault(status: number): boolean {
+  return isHTTPStatus(status) && STATUS_REGISTRY[status].cacheable;
+}
+
+/**
+ * Whether a response with `status` must not have content: every 1xx
+ * response, `204 No Content`, `205 Reset Content` and `304 Not
+ * Modified`. If the request `method` is given, responses to `HEAD` and
+ * successful responses to `CONNECT` also must not (RFC 9110 section
+ * 6.4.1).
+ */
+export function mustNotHaveBody(status: number, method?: string): boolean {
+  if (method === "HEAD" || (method === "CONNECT" && isSuccess(status))) {
+    return true;
+  }
+  return (
+    (isHTTPStatus(status) && STATUS_REGISTRY[status].bodyless) ||
+    classify(status, { byRange: true }) === "Informational"
+  );
+}
+
+/**
+ * Whether a `method` request answered with `status` may safely be
+ * retried as is (see `Retryability`).
+ */
+export function isRetryable(status: number, method: string): boolean {
+  if (!isHTTPStatus(status)) {
+    return false;
+  }
+  const { retryable } = STATUS_REGISTRY[status];
+  return (
+    retryable === "always" ||
+    (retryable === "idempotent" && isIdempotent(method))
+  );
+}
+
+/**
+ * Every name of a constant holding `status`: the name to use first,
+ * followed by any deprecated names. Empty if `status` is not an
+ * official status code.
+ *
+ * For example:
+ *
+ * ``` js
+ * HTTP.aliasesOf(422); // ["UNPROCESSABLE_CONTENT", "UNPROCESSABLE_ENTRY"]
+ * ```
+ */
+export function aliasesOf(status: number): readonly string[] {
+  if (!isHTTPStatus(status)) {
+    return [];
+  }
+  const name = STATUS_REGISTRY[status].name;
+  const names: string[] = [name];
+  for (const old of Object.keys(DEPRECATED_NAMES)) {
+    if (DEPRECATED_NAMES[old as keyof typeof DEPRECATED_NAMES] === name) {
+      names.push(old);
+    }
+  }
+  return names;
+}
@@ -0,0 +1,160 @@
+// Errors carrying a client or server error status, to be thrown by
+// handlers and mapped back to a response by middleware.
+
+import {
+  ALL_STATUSES,
+  ClientError,
+  DEPRECATED_NAMES,
+  ServerError,
+  StatusName,
+  ReasonPhrase,
+  isClientError,
+  isServerError,
+  nameOf,
+  reasonOf,
+} from "./HTTPStatusCodes";
+
+/**
+ * A status code an `HttpError` may carry.
+ */
+export type ErrorStatus = ClientError | ServerError;
+
+/**
+ * Options for constructing an `HttpError`.
+ */
+export interface HttpErrorOptions {
+  /** The error that caused this one, if any. */
+  readonly cause?: unknown;
+  /**
+   * Headers to send with the response, e.g. `Retry-After` for a
+   * `503` or `WWW-Authenticate` for a `401`.
+   */
+  readonly headers?: Readonly<Record<string, string>>;
+}
+
+class HttpErrorBase<S extends ErrorStatus = ErrorStatus> extends Error {
+  /** The status code to respond with. */
+  readonly status: S;
+  /** The canonical reason phrase of `status`. */
+  readonly reason: ReasonPhrase<S>;
+  /** Headers to send with the response. */
+  readonly headers: Readonly<Record<string, string>>;
+  /** The error that caused this one, if any. */
+  readonly cause: unknown;
+
+  constructor(status: S, message?: string, options: HttpErrorOptions = {}) {
+    super(message === undefined ? reasonOf(status) : message);
+    // Keeps `instanceof` working when compiled to ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target === HttpErrorBase ? "HttpError" : new.target.name;
+    this.status = status;
+    this.reason = reasonOf(status);
+    this.headers = Object.freeze({ ...options.headers });
+    this.cause = options.cause;
+  }
+
+  /**
+   * Creates an instance of the subclass for `status`, so that for
+   * example `HttpError.fromStatus(404) instanceof HttpError.NOT_FOUND`.
+   * Throws a `RangeError` if `status` is not an official client or
+   * server error status code.
+   */
+  static fromStatus<S extends ErrorStatus>(
+    status: S,
+    message?: string,
+    options?: HttpErrorOptions
+  ): HttpError<S> {
+    if (!Object.prototype.hasOwnProperty.call(SUBCLASSES, status)) {
+      throw new RangeError(
+        `Status ${status} is not a client or server error status code`
+      );
+    }
+    const Subclass = SUBCLASSES[status] as HttpErrorClass<S>;
+    return new Subclass(message, options);
+  }
+}
+
+/**
+ * The constructor of the `HttpError` subclass for a single status.
+ */
+export interface HttpErrorClass<S extends ErrorStatus> {
+  new (message?: string, options?: HttpErrorOptions): HttpError<S>;
+  readonly prototype: HttpError<S>;
+  /** The status code of every instance. */
+  readonly status: S;
+}
+
+type DeprecatedNames = typeof DEPRECATED_NAMES;
+
+type CanonicalSubclasses = {
+  readonly [S in ErrorStatus as StatusName<S>]: HttpErrorClass<S>;
+};
+
+// The subclasses are also available under deprecated names.
+type HttpErrorSubclasses = CanonicalSubclasses & {
+  readonly [N in keyof DeprecatedNames]: CanonicalSubclasses[DeprecatedNames[N]];
+};
+
+// NOT_FOUND -> NotFoundError
+function className(status: ErrorStatus): string {
+  const words = nameOf(status).toLowerCase().split("_");
+  return words.map((w) => w[0].toUpperCase() + w.slice(1)).join("") + "Error";
+}
+
+function subclass<S extends ErrorStatus>(status: S): HttpErrorClass<S> {
+  const Subclass = class extends HttpErrorBase<S> {
+    static readonly status = status;
+
+    constructor(message?: string, options?: HttpErrorOptions) {
+      super(status, message, options);
+    }
+  };
+  Object.defineProperty(Subclass, "name", { value: className(status) });
+  return Subclass;
+}
+
+const SUBCLASSES: { [code: number]: unknown } = {};
+const STATICS: { [name: string]: unknown } = {};
+for (const code of ALL_STATUSES) {
+  if (isClientError(code) || isServerError(code)) {
+    const Subclass = subclass(code);
+    SUBCLASSES[code] = Subclass;
+    STATICS[nameOf(code)] = Subclass;
+  }
+}
+for (const old of Object.keys(DEPRECATED_NAMES) as (keyof DeprecatedNames)[]) {
+  STATICS[old] = STATICS[DEPRECATED_NAMES[old]];
+}
+
+/**
+ * An error carrying a client or server error status.
+ *
+ * There is a subclass for each status, named after its constant:
+ *
+ * ``` js
+ * throw new HttpError.FORBIDDEN("Only admins may do that");
+ *
+ * // And in middleware:
+ * if (error instanceof HttpError) {
+ *   res.writeHead(error.status, error.reason, error.headers);
+ * }
+ * ```
+ */
+export const HttpError = Object.assign(
+  HttpErrorBase,
+  STATICS as unknown as HttpErrorSubclasses
+);
+export type HttpError<S extends ErrorStatus = ErrorStatus> = HttpErrorBase<S>;
+
+/**
+ * Whether `value` is an `HttpError`, optionally with a given status.
+ */
+export function isHttpError<S extends ErrorStatus = ErrorStatus>(
+  value: unknown,
+  status?: S
+): value is HttpError<S> {
+  return (
+    value instanceof HttpErrorBase &&
+    (status === undefined || value.status === status)
+  );
+}
@@ -0,0 +1,165 @@
+// Helpers for the parts of requests and responses that the modules
+// handling them share: reading header fields and dates, telling safe
+// methods apart, naming statuses in messages, and the results of
+// parsing them.
+
+import { isHTTPStatus, reasonOf } from "./HTTPStatusCodes";
+
+/**
+ * The result of parsing: either the parsed value, or an error.
+ */
+export type ParseResult<T, E> =
+  | { readonly ok: true; readonly value: T }
+  | { readonly ok: false; readonly error: E };
+
+/**
+ * Request headers, either as a Fetch API `Headers` or as an object
+ * like the `headers` of a Node.js `IncomingMessage`.
+ */
+export type RequestHeaders =
+  | { get(name: string): string | null }
+  | { readonly [name: string]: string | readonly string[] | undefined };
+
+/**
+ * Response headers, either as a Fetch API `Headers` or as an object
+ * like the one returned by `getHeaders()` of a Node.js
+ * `ServerResponse`.
+ */
+export type ResponseHeaders =
+  | { get(name: string): string | null }
+  | {
+      readonly [name: string]: string | number | readonly string[] | undefined;
+    };
+
+/**
+ * The value of the header `name` in `headers`, whatever their case,
+ * with repeated headers joined by commas. A header set to `undefined`
+ * is missing.
+ *
+ * For example:
+ *
+ * ``` js
+ * headerValue({ Vary: ["Accept", "Accept-Encoding"] }, "vary");
+ * // "Accept, Accept-Encoding"
+ * ```
+ */
+export function headerValue(
+  headers: RequestHeaders | ResponseHeaders,
+  name: string
+): string | undefined {
+  if (typeof headers.get === "function") {
+    const value = (headers as { get(name: string): string | null }).get(name);
+    return value === null ? undefined : value;
+  }
+  const record = headers as {
+    readonly [name: string]: string | number | readonly string[] | undefined;
+  };
+  const wanted = name.toLowerCase();
+  for (const key of Object.keys(record)) {
+    const value = record[key];
+    if (key.toLowerCase() === wanted && value !== undefined) {
+      return Array.isArray(value) ? value.join(", ") : String(value);
+    }
+  }
+  return undefined;
+}
+
+const MONTHS = "Jan Feb Mar Apr May Jun Jul Aug Sep Oct Nov Dec".split(" ");
+
+// The three formats of RFC 9110 section 5.6.7, e.g.
+// "Sun, 06 Nov 1994 08:49:37 GMT", the obsolete
+// "Sunday, 06-Nov-94 08:49:37 GMT" and "Sun Nov  6 08:49:37 1994".
+const IMF_FIXDATE =
+  /^(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun), (\d{2}) (\w{3}) (\d{4}) (\d{2}):(\d{2}):(\d{2}) GMT$/;
+const RFC_850_DATE =
+  /^(?:Mon|Tues|Wednes|Thurs|Fri|Satur|Sun)day, (\d{2})-(\w{3})-(\d{2}) (\d{2}):(\d{2}):(\d{2}) GMT$/;
+const ASCTIME_DATE =
+  /^(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun) (\w{3}) ( \d|\d{2}) (\d{2}):(\d{2}):(\d{2}) (\d{4})$/;
+
+// The time of a date, or undefined if it does not exist, e.g.
+// 31 Apr, or its month is not one of MONTHS.
+function utc(
+  year: number,
+  month: string,
+  day: string,
+  hour: string,
+  minute: string,
+  second: string
+): number | undefined {
+  const monthIndex = MONTHS.indexOf(month);
+  const time = Date.UTC(
+    year,
+    monthIndex,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second)
+  );
+  const date = new Date(time);
+  const valid =
+    date.getUTCMonth() === monthIndex &&
+    date.getUTCDate() === Number(day) &&
+    Number(hour) < 24 &&
+    Number(minute) < 60 &&
+    Number(second) < 61;
+  return valid ? time : undefined;
+}
+
+// A two-digit year more than 50 years in the future is in the past
+// century (RFC 9110 section 5.6.7).
+function fullYear(year: string): number {
+  const current = new Date().getUTCFullYear();
+  const full = current - (current % 100) + Number(year);
+  return full > current + 50 ? full - 100 : full;
+}
+
+/**
+ * Parses an HTTP-date (RFC 9110 section 5.6.7) into a time in
+ * milliseconds. Returns `undefined` for anything else, however
+ * `Date.parse` would read it.
+ *
+ * For example:
+ *
+ * ``` js
+ * parseHttpDate("Sun, 06 Nov 1994 08:49:37 GMT"); // 784111777000
+ * parseHttpDate("2030"); // undefined
+ * ```
+ */
+export function parseHttpDate(value: string): number | undefined {
+  const text = value.trim();
+  let match = IMF_FIXDATE.exec(text);
+  if (match) {
+    const [, day, month, year, hour, minute, second] = match;
+    return utc(Number(year), month, day, hour, minute, second);
+  }
+  match = RFC_850_DATE.exec(text);
+  if (match) {
+    const [, day, month, year, hour, minute, second] = match;
+    return utc(fullYear(year), month, day, hour, minute, second);
+  }
+  match = ASCTIME_DATE.exec(text);
+  if (match) {
+    const [, month, day, hour, minute, second, year] = match;
+    return utc(Number(year), month, day.trim(), hour, minute, second);
+  }
+  return undefined;
+}
+
+// RFC 9110 section 9.2.1.
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS", "TRACE"];
+
+/**
+ * Whether `method` is safe (RFC 9110 section 9.2.1), that is, read-only.
+ * Methods are case-sensitive.
+ */
+export function isSafeMethod(method: string): boolean {
+  return SAFE_METHODS.indexOf(method) >= 0;
+}
+
+/**
+ * A status as written in messages: its code followed by its reason
+ * phrase if it is official, e.g. `"405 Method Not Allowed"`.
+ */
+export function describeStatus(status: number): string {
+  return isHTTPStatus(status) ? `${status} ${reasonOf(status)}` : `${status}`;
+}
@@ -0,0 +1,70 @@
+// Unofficial status codes used by Microsoft's Internet Information
+// Services (https://learn.microsoft.com/en-us/troubleshoot/developer/webapps/iis/health-diagnostic-performance/http-status-code).
+// They are not part of `HTTPStatus`.
+
+import {
+  TableMatches,
+  VendorStatusInfo,
+  vendorRegistry,
+} from "./VendorStatusCodes";
+
+/**
+ * The client's session has expired and must log in again.
+ *
+ * Unofficial: IIS.
+ */
+export const LOGIN_TIME_OUT = 440;
+export type LOGIN_TIME_OUT = 440;
+
+/**
+ * The server cannot honour the request because the user has not
+ * provided the required information.
+ *
+ * Unofficial: IIS.
+ */
+export const RETRY_WITH = 449;
+export type RETRY_WITH = 449;
+
+/**
+ * The IIS status codes signalling an error by the client.
+ */
+export type IISClientError = LOGIN_TIME_OUT | RETRY_WITH;
+
+/**
+ * The IIS client error status codes, keyed by name.
+ */
+export const IISClientError = Object.freeze({
+  LOGIN_TIME_OUT,
+  RETRY_WITH,
+} as const);
+
+/**
+ * An unofficial status code used by IIS.
+ */
+export type IISStatus = IISClientError;
+
+const IIS_TABLE = {
+  [LOGIN_TIME_OUT]: {
+    name: "LOGIN_TIME_OUT",
+    reason: "Login Time-out",
+    deprecated: false,
+  },
+  [RETRY_WITH]: {
+    name: "RETRY_WITH",
+    reason: "Retry With",
+    deprecated: false,
+  },
+} as const;
+
+const IIS_TABLE_MATCHES: TableMatches<
+  typeof import("./IISStatusCodes"),
+  typeof IIS_TABLE,
+  IISStatus
+> = true;
+
+/**
+ * The metadata of every IIS status code, keyed by code.
+ */
+export const IIS_STATUS_REGISTRY: {
+  readonly [S in IISStatus]: VendorStatusInfo<S>;
+} = vendorRegistry("IIS", IIS_TABLE);
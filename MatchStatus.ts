@@ -0,0 +1,127 @@
+// Pattern matching on status codes, checked for exhaustiveness by the
+// compiler.
+
+import {
+  ClientError,
+  HTTPStatus,
+  Informational,
+  Redirection,
+  STATUS_REGISTRY,
+  ServerError,
+  StatusCategory,
+  Success,
+} from "./HTTPStatusCodes";
+
+/**
+ * The codes of each class, keyed by its name.
+ */
+export interface CategoryMembers {
+  readonly Informational: Informational;
+  readonly Success: Success;
+  readonly Redirection: Redirection;
+  readonly ClientError: ClientError;
+  readonly ServerError: ServerError;
+}
+
+/**
+ * The class of `S`, e.g. `"ClientError"` for `404`.
+ */
+export type CategoryOf<S extends HTTPStatus> = {
+  [C in StatusCategory]: S extends CategoryMembers[C] ? C : never;
+}[StatusCategory];
+
+/**
+ * Handlers for the members of `S`, keyed by code, by class name, or
+ * `default`. Each is passed the status it matched, typed as any of
+ * the statuses its key covers.
+ */
+export type StatusHandlers<S extends HTTPStatus, R> = {
+  readonly [K in S]?: (status: K) => R;
+} & {
+  readonly [C in CategoryOf<S>]?: (status: Extract<S, CategoryMembers[C]>) => R;
+} & {
+  readonly default?: (status: S) => R;
+};
+
+/**
+ * The members of `S` that `H` has no handler for, by code or class.
+ */
+export type Unhandled<S extends HTTPStatus, H> = S extends unknown
+  ? S extends keyof H
+    ? never
+    : CategoryOf<S> extends keyof H
+    ? never
+    : S
+  : never;
+
+// Keys of `H` that no member of `S` can match.
+type Unreachable<S extends HTTPStatus, H> = Exclude<
+  keyof H,
+  S | CategoryOf<S> | "default"
+>;
+
+// Asks for no handlers for statuses `S` can't be, and, without a
+// default, for a handler for each unhandled status, so that the
+// compiler names them.
+type Exhaustive<S extends HTTPStatus, H> = ([Unreachable<S, H>] extends [never]
+  ? unknown
+  : { readonly [K in Unreachable<S, H>]: never }) &
+  ("default" extends keyof H
+    ? unknown
+    : { readonly [K in Unhandled<S, H>]: (status: K) => unknown });
+
+type ResultOf<H> = {
+  [K in keyof H]: H[K] extends (status: never) => infer R ? R : never;
+}[keyof H];
+
+/**
+ * Calls the handler for `status`: the one for its code if there is
+ * one, or else the one for its class, or else `default`. Without a
+ * `default`, fails to compile unless every member of the type of
+ * `status` has a handler.
+ *
+ * For example:
+ *
+ * ``` ts
+ * declare const status: OK | NOT_FOUND | GONE | INTERNAL_SERVER_ERROR;
+ * matchStatus(status, {
+ *   [OK]: () => "found",
+ *   [NOT_FOUND]: () => "missing",
+ *   ClientError: (status) => `other error ${status}`, // Only ever GONE
+ * }); // A type error: 500 has no handler
+ * ```
+ */
+export function matchStatus<
+  S extends HTTPStatus,
+  H extends StatusHandlers<S, unknown>
+>(status: S, handlers: H & Exhaustive<S, H>): ResultOf<H> {
+  const table = handlers as {
+    readonly [key: string]: ((status: S) => ResultOf<H>) | undefined;
+  };
+  const handler =
+    table[status] || table[STATUS_REGISTRY[status].category] || table.default;
+  if (handler === undefined) {
+    throw new RangeError(`No handler for status ${status}`);
+  }
+  return handler(status);
+}
+
+/**
+ * Fails to compile if reached with a value that may be something
+ * other than `never`, and throws if reached at all. For the `default`
+ * of a `switch` that should cover every status.
+ *
+ * For example:
+ *
+ * ``` ts
+ * switch (status) {
+ *   case OK: ...
+ *   case NOT_FOUND: ...
+ *   default:
+ *     assertNever(status); // A type error if some status is left out
+ * }
+ * ```
+ */
+export function assertNever(value: never): never {
+  throw new TypeError(`Unexpected status ${String(value)}`);
+}
@@ -0,0 +1,106 @@
+// Localised messages for status codes, for showing to the users of an
+// application (e.g. on error pages) rather than to developers.
+
+import { HTTPStatus, StatusCategory, classify } from "./HTTPStatusCodes";
+import { ENGLISH } from "./locales/en";
+import { GERMAN } from "./locales/de";
+import { FRENCH } from "./locales/fr";
+import { SPANISH } from "./locales/es";
+
+/**
+ * A message about a status code, in some language.
+ */
+export interface StatusMessage {
+  /** A short phrase naming the status, e.g. "Not Found". */
+  readonly reason: string;
+  /** One or two sentences telling a user what happened. */
+  readonly explanation: string;
+}
+
+/**
+ * The messages of a single locale. Messages for codes the catalog
+ * leaves out fall back to the message for their class.
+ */
+export interface MessageCatalog {
+  /** A BCP 47 language tag, e.g. `"en"` or `"pt-BR"`. */
+  readonly locale: string;
+  readonly statuses: { readonly [S in HTTPStatus]?: StatusMessage };
+  readonly categories: { readonly [C in StatusCategory]: StatusMessage };
+  /** The message for codes outside the range 100 to 599. */
+  readonly unknown: StatusMessage;
+}
+
+/**
+ * A message, together with the locale of the catalog it came from.
+ */
+export interface LocalizedMessage extends StatusMessage {
+  readonly locale: string;
+}
+
+// A map, as locales often come from request headers such as
+// `Accept-Language`, and may be "constructor" or "__proto__".
+const catalogs = new Map<string, MessageCatalog>();
+
+function normalize(locale: string): string {
+  return locale.replace(/_/g, "-").toLowerCase();
+}
+
+/**
+ * Makes a catalog available to `messageOf`, replacing any catalog
+ * already registered for its locale.
+ */
+export function registerCatalog(catalog: MessageCatalog): void {
+  catalogs.set(normalize(catalog.locale), catalog);
+}
+
+/**
+ * The locales with a registered catalog.
+ */
+export function registeredLocales(): string[] {
+  return Array.from(catalogs.values(), (catalog) => catalog.locale);
+}
+
+// "de-AT" -> ["de-at", "de", "en"]
+function fallbacks(locale: string): string[] {
+  const parts = normalize(locale).split("-");
+  const chain: string[] = [];
+  for (let i = parts.length; i > 0; i--) {
+    chain.push(parts.slice(0, i).join("-"));
+  }
+  return chain.indexOf("en") < 0 ? chain.concat("en") : chain;
+}
+
+/**
+ * The message for `status` in `locale`, which defaults to English.
+ * Falls back from a locale to its language (`"de-AT"` to `"de"`) and
+ * finally to English, and from a code without a message to the
+ * message for its class.
+ *
+ * For example:
+ *
+ * ``` js
+ * messageOf(404, "de");
+ * // { locale: "de", reason: "Nicht gefunden",
+ * //   explanation: "Die angeforderte Seite wurde nicht gefunden." }
+ * ```
+ */
+export function messageOf(status: number, locale = "en"): LocalizedMessage {
+  for (const key of fallbacks(locale)) {
+    const catalog = catalogs.get(key);
+    if (catalog === undefined) {
+      continue;
+    }
+    const category = classify(status, { byRange: true });
+    const message =
+      category === undefined
+        ? catalog.unknown
+        : catalog.statuses[status as HTTPStatus] ||
+          catalog.categories[category];
+    return { locale: catalog.locale, ...message };
+  }
+  throw new Error(`No catalog for ${locale} or English`);
+}
+
+for (const catalog of [ENGLISH, GERMAN, FRENCH, SPANISH]) {
+  registerCatalog(catalog);
+}
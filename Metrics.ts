@@ -0,0 +1,265 @@
+// Classification of statuses for logs, metrics and SLOs, and a
+// sliding-window aggregator of error rate and availability.
+
+import { isHTTPStatus, reasonOf } from "./HTTPStatusCodes";
+
+/**
+ * A low-cardinality label for a status, by its first digit. Anything
+ * outside 100 to 599 is `"other"`.
+ */
+export type MetricsLabel = "1xx" | "2xx" | "3xx" | "4xx" | "5xx" | "other";
+
+/**
+ * How a response counts towards a service level objective:
+ *
+ * - "success": it counts as served.
+ * - "client_error": it failed through the client's fault, e.g. a 404
+ *   or a 499 (client closed the request). It doesn't count against
+ *   availability.
+ * - "server_error": it failed through the server's fault, e.g. a 500
+ *   or a 502.
+ * - "ignored": it doesn't count at all, e.g. an interim 1xx response.
+ */
+export type SloOutcome =
+  | "success"
+  | "client_error"
+  | "server_error"
+  | "ignored";
+
+/**
+ * Options for `sloOutcome`.
+ */
+export interface SloOptions {
+  /**
+   * Outcomes to use instead of the defaults for particular codes, e.g.
+   * `{ [NOT_FOUND]: "success" }` for a route where a 404 is expected.
+   */
+  readonly overrides?: { readonly [status: number]: SloOutcome };
+}
+
+/**
+ * The metrics label of `status`.
+ *
+ * For example:
+ *
+ * ``` js
+ * metricsLabel(404); // "4xx"
+ * metricsLabel(499); // "4xx"
+ * metricsLabel(0); // "other"
+ * ```
+ */
+export function metricsLabel(status: number): MetricsLabel {
+  if (!Number.isInteger(status) || status < 100 || status > 599) {
+    return "other";
+  }
+  return `${Math.floor(status / 100)}xx` as MetricsLabel;
+}
+
+/**
+ * The SLO outcome of `status`. By default, informational responses are
+ * ignored, successes and redirections succeed, 4xx codes are client
+ * errors and 5xx codes server errors. Anything outside 100 to 599,
+ * such as the 0 some clients report for a failed connection, is a
+ * server error.
+ */
+export function sloOutcome(
+  status: number,
+  options: SloOptions = {}
+): SloOutcome {
+  const { overrides = {} } = options;
+  if (overrides[status] !== undefined) {
+    return overrides[status];
+  }
+  switch (metricsLabel(status)) {
+    case "1xx":
+      return "ignored";
+    case "2xx":
+    case "3xx":
+      return "success";
+    case "4xx":
+      return "client_error";
+    default:
+      return "server_error";
+  }
+}
+
+/**
+ * Fields describing a status, for structured logs.
+ */
+export interface StatusLogFields {
+  readonly status: number;
+  readonly statusClass: MetricsLabel;
+  /** The canonical reason phrase, or `""` for an unknown code. */
+  readonly reason: string;
+  readonly outcome: SloOutcome;
+}
+
+/**
+ * The fields to log for a response with `status`.
+ *
+ * For example:
+ *
+ * ``` js
+ * logger.info({ ...statusLogFields(res.statusCode), path }, "request");
+ * ```
+ */
+export function statusLogFields(
+  status: number,
+  options: SloOptions = {}
+): StatusLogFields {
+  return {
+    status,
+    statusClass: metricsLabel(status),
+    reason: isHTTPStatus(status) ? reasonOf(status) : "",
+    outcome: sloOutcome(status, options),
+  };
+}
+
+/**
+ * Options for a `StatusAggregator`.
+ */
+export interface StatusAggregatorOptions extends SloOptions {
+  /** The longest window kept, in milliseconds. Defaults to 300000. */
+  readonly window?: number;
+  /**
+   * The width of the buckets statuses are counted in, in milliseconds.
+   * Windows are measured in whole buckets. Defaults to 1000.
+   */
+  readonly resolution?: number;
+  /** Returns the current time in milliseconds. Defaults to `Date.now`. */
+  readonly now?: () => number;
+}
+
+/**
+ * Counts of the responses in a window.
+ */
+export interface StatusStats {
+  /** Every response recorded, including ignored ones. */
+  readonly total: number;
+  readonly outcomes: { readonly [O in SloOutcome]: number };
+  readonly labels: { readonly [L in MetricsLabel]: number };
+  /**
+   * The share of counted (not ignored) responses that were errors of
+   * either kind, or 0 if there were none.
+   */
+  readonly errorRate: number;
+  /**
+   * The share of counted responses that were not server errors, or 1
+   * if there were none.
+   */
+  readonly availability: number;
+}
+
+interface Bucket {
+  readonly start: number;
+  readonly outcomes: { [O in SloOutcome]: number };
+  readonly labels: { [L in MetricsLabel]: number };
+}
+
+function emptyOutcomes(): { [O in SloOutcome]: number } {
+  return { success: 0, client_error: 0, server_error: 0, ignored: 0 };
+}
+
+function emptyLabels(): { [L in MetricsLabel]: number } {
+  return { "1xx": 0, "2xx": 0, "3xx": 0, "4xx": 0, "5xx": 0, other: 0 };
+}
+
+/**
+ * Aggregates a stream of statuses into error rates and availability
+ * over sliding windows. Statuses are counted in buckets, so memory use
+ * depends on the window and resolution rather than on the traffic.
+ *
+ * For example:
+ *
+ * ``` js
+ * const aggregator = new StatusAggregator({ window: 3600000 });
+ * aggregator.record(res.statusCode);
+ * aggregator.stats(60000).availability; // Over the last minute
+ * aggregator.stats().errorRate; // Over the last hour
+ * ```
+ */
+export class StatusAggregator {
+  private readonly options: Required<StatusAggregatorOptions>;
+  // Oldest first.
+  private buckets: Bucket[] = [];
+
+  constructor(options: StatusAggregatorOptions = {}) {
+    const {
+      overrides = {},
+      window = 300000,
+      resolution = 1000,
+      now = Date.now,
+    } = options;
+    this.options = { overrides, window, resolution, now };
+  }
+
+  /**
+   * Counts a response with `status`, at the current time.
+   */
+  record(status: number): void {
+    const now = this.options.now();
+    this.prune(now);
+    const { resolution } = this.options;
+    const start = now - (now % resolution);
+    let bucket = this.buckets[this.buckets.length - 1];
+    if (bucket === undefined || bucket.start !== start) {
+      bucket = { start, outcomes: emptyOutcomes(), labels: emptyLabels() };
+      this.buckets.push(bucket);
+    }
+    bucket.outcomes[sloOutcome(status, this.options)]++;
+    bucket.labels[metricsLabel(status)]++;
+  }
+
+  /**
+   * The counts of the responses recorded in the last `window`
+   * milliseconds, which defaults to, and may be no longer than, the
+   * window of the aggregator.
+   */
+  stats(window = this.options.window): StatusStats {
+    if (window > this.options.window) {
+      throw new RangeError(
+        `Window ${window} is longer than the ${this.options.window} kept`
+      );
+    }
+    const now = this.options.now();
+    this.prune(now);
+    const outcomes = emptyOutcomes();
+    const labels = emptyLabels();
+    for (const bucket of this.buckets) {
+      if (bucket.start + this.options.resolution <= now - window) {
+        continue;
+      }
+      for (const key of Object.keys(outcomes) as SloOutcome[]) {
+        outcomes[key] += bucket.outcomes[key];
+      }
+      for (const key of Object.keys(labels) as MetricsLabel[]) {
+        labels[key] += bucket.labels[key];
+      }
+    }
+    const errors = outcomes.client_error + outcomes.server_error;
+    const counted = outcomes.success + errors;
+    return {
+      total: counted + outcomes.ignored,
+      outcomes,
+      labels,
+      errorRate: counted === 0 ? 0 : errors / counted,
+      availability:
+        counted === 0 ? 1 : (counted - outcomes.server_error) / counted,
+    };
+  }
+
+  // Drops the buckets that have left the longest window.
+  private prune(now: number): void {
+    const { window, resolution } = this.options;
+    let i = 0;
+    while (
+      i < this.buckets.length &&
+      this.buckets[i].start + resolution <= now - window
+    ) {
+      i++;
+    }
+    if (i > 0) {
+      this.buckets = this.buckets.slice(i);
+    }
+  }
+}
@@ -0,0 +1,358 @@
+// Proactive content negotiation (RFC 9110 section 12): parsing the
+// Accept, Accept-Language and Accept-Encoding headers, and choosing a
+// representation or the status to respond with instead.
+
+import { NOT_ACCEPTABLE, OK, UNSUPPORTED_MEDIA_TYPE } from "./HTTPStatusCodes";
+import { RequestHeaders, headerValue } from "./HttpMessage";
+
+/**
+ * A media range of an `Accept` header, e.g. `text/*;q=0.5`.
+ */
+export interface MediaRange {
+  /** In lower case; `"*"` for any. */
+  readonly type: string;
+  /** In lower case; `"*"` for any. */
+  readonly subtype: string;
+  /** The parameters before the weight, with their names in lower case. */
+  readonly parameters: { readonly [name: string]: string };
+  /** The weight, from 0 to 1. */
+  readonly q: number;
+}
+
+/**
+ * A language range, content coding or other token of an
+ * `Accept-Language` or `Accept-Encoding` header.
+ */
+export interface WeightedToken {
+  /** In lower case; `"*"` for any. */
+  readonly value: string;
+  /** The weight, from 0 to 1. */
+  readonly q: number;
+}
+
+/**
+ * The representations a resource has, each list in order of
+ * preference.
+ */
+export interface Available {
+  /** Media types, e.g. `["application/json", "text/html"]`. */
+  readonly types?: readonly string[];
+  /** Language tags, e.g. `["en", "de"]`. */
+  readonly languages?: readonly string[];
+  /**
+   * Content codings besides identity, e.g. `["br", "gzip"]`. The
+   * content is always also available without one.
+   */
+  readonly encodings?: readonly string[];
+  /**
+   * The media types of request content the resource accepts, e.g.
+   * `["application/json"]`. A request with any other `Content-Type`
+   * gets a `415`. Parameters given must match too, so that
+   * `"text/plain;charset=utf-8"` turns away other charsets.
+   */
+  readonly consumes?: readonly string[];
+}
+
+/**
+ * Options for `negotiate`.
+ */
+export interface NegotiateOptions {
+  /**
+   * Whether to respond `406` when no language is acceptable, rather
+   * than with the first language available, as RFC 9110 section
+   * 12.5.4 allows. Defaults to false.
+   */
+  readonly strictLanguage?: boolean;
+}
+
+/**
+ * What `negotiate` decided:
+ *
+ * - `200`: respond with the chosen `type`, `language` and `encoding`,
+ *   each left out if the resource offers no choice of it (an
+ *   `encoding` of "identity" means no content coding).
+ * - `406`: no representation is acceptable.
+ * - `415`: the request has content of a type the resource does not
+ *   accept; send `accept` as the `Accept` header.
+ *
+ * `vary` is the `Vary` header to send with a `200` or `406`, naming
+ * the headers the choice could depend on for any request, or `""` for
+ * none.
+ */
+export type Negotiation =
+  | {
+      readonly status: OK;
+      readonly type?: string;
+      readonly language?: string;
+      readonly encoding?: string;
+      readonly vary: string;
+    }
+  | { readonly status: NOT_ACCEPTABLE; readonly vary: string }
+  | { readonly status: UNSUPPORTED_MEDIA_TYPE; readonly accept: string };
+
+const IDENTITY = "identity";
+
+// RFC 9110 section 5.6.2.
+const MEDIA_RANGE = /^([\w!#$%&'*+.^`|~-]+)\/([\w!#$%&'*+.^`|~-]+)$/;
+
+// Splits a list at commas outside quoted strings.
+function splitList(value: string): string[] {
+  return (value.match(/(?:[^,"]|"(?:[^"\\]|\\.)*")+/g) || [])
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
+
+function parseWeight(text: string): number {
+  const q = Number(text);
+  return /^(0(\.\d{0,3})?|1(\.0{0,3})?)$/.test(text) ? q : 1;
+}
+
+function unquote(text: string): string {
+  return text.startsWith('"')
+    ? text.slice(1, -1).replace(/\\(.)/g, "$1")
+    : text;
+}
+
+// The parameters of an item, up to and excluding a weight, and the
+// weight.
+function parseParameters(parts: string[]): {
+  parameters: { [name: string]: string };
+  q: number;
+} {
+  const parameters: { [name: string]: string } = {};
+  for (const part of parts) {
+    const equals = part.indexOf("=");
+    const name = (equals < 0 ? part : part.slice(0, equals))
+      .trim()
+      .toLowerCase();
+    const value = equals < 0 ? "" : unquote(part.slice(equals + 1).trim());
+    if (name === "q") {
+      return { parameters, q: parseWeight(value) };
+    }
+    parameters[name] = value;
+  }
+  return { parameters, q: 1 };
+}
+
+/**
+ * Parses an `Accept` header, skipping malformed media ranges.
+ *
+ * For example:
+ *
+ * ``` js
+ * parseAccept("text/html, text/plain;format=flowed;q=0.5");
+ * // [{ type: "text", subtype: "html", parameters: {}, q: 1 },
+ * //  { type: "text", subtype: "plain", parameters: { format: "flowed" }, q: 0.5 }]
+ * ```
+ */
+export function parseAccept(value: string): MediaRange[] {
+  const ranges: MediaRange[] = [];
+  for (const item of splitList(value)) {
+    const [range, ...rest] = item.split(";");
+    const match = MEDIA_RANGE.exec(range.trim());
+    if (!match || (match[1] === "*" && match[2] !== "*")) {
+      continue;
+    }
+    ranges.push({
+      type: match[1].toLowerCase(),
+      subtype: match[2].toLowerCase(),
+      ...parseParameters(rest),
+    });
+  }
+  return ranges;
+}
+
+/**
+ * Parses an `Accept-Language`, `Accept-Encoding` or `Accept-Charset`
+ * header.
+ */
+export function parseAcceptList(value: string): WeightedToken[] {
+  return splitList(value).map((item) => {
+    const [token, ...rest] = item.split(";");
+    return {
+      value: token.trim().toLowerCase(),
+      q: parseParameters(rest).q,
+    };
+  });
+}
+
+// The weight the most specific of `ranges` gives `mediaType`, or 0 if
+// none matches (RFC 9110 section 12.5.1).
+function mediaTypeWeight(
+  mediaType: string,
+  ranges: readonly MediaRange[]
+): number {
+  const [offered] = parseAccept(mediaType);
+  if (offered === undefined) {
+    return 0;
+  }
+  let best: MediaRange | undefined;
+  let bestSpecificity = -1;
+  for (const range of ranges) {
+    const names = Object.keys(range.parameters);
+    const matches =
+      (range.type === "*" || range.type === offered.type) &&
+      (range.subtype === "*" || range.subtype === offered.subtype) &&
+      names.every(
+        (name) =>
+          (offered.parameters[name] || "").toLowerCase() ===
+          range.parameters[name].toLowerCase()
+      );
+    if (!matches) {
+      continue;
+    }
+    const specificity =
+      (range.type === "*" ? 0 : 1) +
+      (range.subtype === "*" ? 0 : 1) +
+      names.length;
+    if (specificity > bestSpecificity) {
+      best = range;
+      bestSpecificity = specificity;
+    }
+  }
+  return best === undefined ? 0 : best.q;
+}
+
+// The weight the longest matching language range gives `language`, as
+// in the basic filtering of RFC 4647 section 3.3.1.
+function languageWeight(
+  language: string,
+  ranges: readonly WeightedToken[]
+): number {
+  const tag = language.toLowerCase();
+  let best: WeightedToken | undefined;
+  for (const range of ranges) {
+    const matches =
+      range.value === "*" ||
+      range.value === tag ||
+      tag.startsWith(range.value + "-");
+    const longer =
+      best === undefined ||
+      best.value === "*" ||
+      (range.value !== "*" && range.value.length > best.value.length);
+    if (matches && longer) {
+      best = range;
+    }
+  }
+  return best === undefined ? 0 : best.q;
+}
+
+// The weight given to a content coding (RFC 9110 section 12.5.3):
+// identity is acceptable unless excluded, explicitly or by "*;q=0".
+function encodingWeight(
+  encoding: string,
+  tokens: readonly WeightedToken[]
+): number {
+  const coding = encoding.toLowerCase();
+  const exact = tokens.find((token) => token.value === coding);
+  if (exact !== undefined) {
+    return exact.q;
+  }
+  const any = tokens.find((token) => token.value === "*");
+  if (any !== undefined) {
+    return any.q;
+  }
+  return coding === IDENTITY ? 1 : 0;
+}
+
+// The first of `offers` with the highest non-zero weight.
+function choose(
+  offers: readonly string[],
+  weight: (offer: string) => number
+): string | undefined {
+  let best: string | undefined;
+  let bestWeight = 0;
+  for (const offer of offers) {
+    const q = weight(offer);
+    if (q > bestWeight) {
+      best = offer;
+      bestWeight = q;
+    }
+  }
+  return best;
+}
+
+/**
+ * Chooses the representation to send in response to a request with
+ * `headers`, from those `available`, by the weights the request gives
+ * them and then by the order of preference of the resource. A missing
+ * `Accept*` header accepts anything.
+ *
+ * For example:
+ *
+ * ``` js
+ * negotiate(
+ *   { accept: "text/html;q=0.9, application/json" },
+ *   { types: ["text/html", "application/json"] }
+ * );
+ * // { status: 200, type: "application/json", vary: "Accept" }
+ * negotiate({ accept: "image/png" }, { types: ["application/json"] });
+ * // { status: 406, vary: "Accept" }
+ * ```
+ */
+export function negotiate(
+  headers: RequestHeaders,
+  available: Available,
+  options: NegotiateOptions = {}
+): Negotiation {
+  const { types, languages, encodings, consumes } = available;
+
+  const contentType = headerValue(headers, "content-type");
+  if (consumes !== undefined && contentType !== undefined) {
+    const ranges = parseAccept(consumes.join(", "));
+    if (mediaTypeWeight(contentType, ranges) === 0) {
+      return { status: UNSUPPORTED_MEDIA_TYPE, accept: consumes.join(", ") };
+    }
+  }
+
+  const vary: string[] = [];
+  const result: { type?: string; language?: string; encoding?: string } = {};
+
+  if (types !== undefined && types.length > 0) {
+    const accept = headerValue(headers, "accept");
+    const ranges = accept === undefined ? [] : parseAccept(accept);
+    vary.push("Accept");
+    result.type =
+      ranges.length === 0
+        ? types[0]
+        : choose(types, (type) => mediaTypeWeight(type, ranges));
+    if (result.type === undefined) {
+      return { status: NOT_ACCEPTABLE, vary: vary.join(", ") };
+    }
+  }
+
+  if (languages !== undefined && languages.length > 0) {
+    const accept = headerValue(headers, "accept-language");
+    const ranges = accept === undefined ? [] : parseAcceptList(accept);
+    if (languages.length > 1 || options.strictLanguage) {
+      vary.push("Accept-Language");
+    }
+    result.language =
+      ranges.length === 0
+        ? languages[0]
+        : choose(languages, (language) => languageWeight(language, ranges));
+    if (result.language === undefined) {
+      if (options.strictLanguage) {
+        return { status: NOT_ACCEPTABLE, vary: vary.join(", ") };
+      }
+      result.language = languages[0];
+    }
+  }
+
+  if (encodings !== undefined && encodings.length > 0) {
+    const accept = headerValue(headers, "accept-encoding");
+    const tokens = accept === undefined ? [] : parseAcceptList(accept);
+    vary.push("Accept-Encoding");
+    result.encoding =
+      accept === undefined
+        ? IDENTITY
+        : choose([...encodings, IDENTITY], (encoding) =>
+            encodingWeight(encoding, tokens)
+          );
+    if (result.encoding === undefined) {
+      return { status: NOT_ACCEPTABLE, vary: vary.join(", ") };
+    }
+  }
+
+  return { status: OK, ...result, vary: vary.join(", ") };
+}
@@ -0,0 +1,134 @@
+// Unofficial status codes used by nginx
+// (https://nginx.org/en/docs/http/ngx_http_core_module.html). They
+// are not part of `HTTPStatus`.
+
+import {
+  TableMatches,
+  VendorStatusInfo,
+  vendorRegistry,
+} from "./VendorStatusCodes";
+
+/**
+ * Used internally to instruct the server to return no information to
+ * the client and close the connection immediately.
+ *
+ * Unofficial: nginx.
+ */
+export const NO_RESPONSE = 444;
+export type NO_RESPONSE = 444;
+
+/**
+ * The client sent too large a request, or too long a header line.
+ *
+ * Unofficial: nginx.
+ */
+export const REQUEST_HEADER_TOO_LARGE = 494;
+export type REQUEST_HEADER_TOO_LARGE = 494;
+
+/**
+ * The client has provided an invalid client certificate.
+ *
+ * Unofficial: nginx.
+ */
+export const SSL_CERTIFICATE_ERROR = 495;
+export type SSL_CERTIFICATE_ERROR = 495;
+
+/**
+ * A client certificate is required but was not provided.
+ *
+ * Unofficial: nginx.
+ */
+export const SSL_CERTIFICATE_REQUIRED = 496;
+export type SSL_CERTIFICATE_REQUIRED = 496;
+
+/**
+ * The client has made a plain HTTP request to a port listening for
+ * HTTPS requests.
+ *
+ * Unofficial: nginx.
+ */
+export const HTTP_REQUEST_SENT_TO_HTTPS_PORT = 497;
+export type HTTP_REQUEST_SENT_TO_HTTPS_PORT = 497;
+
+/**
+ * The client closed the connection while nginx was processing the
+ * request. Only logged: the client never receives it.
+ *
+ * Unofficial: nginx.
+ */
+export const CLIENT_CLOSED_REQUEST = 499;
+export type CLIENT_CLOSED_REQUEST = 499;
+
+/**
+ * The nginx status codes signalling an error by the client.
+ */
+export type NginxClientError =
+  | NO_RESPONSE
+  | REQUEST_HEADER_TOO_LARGE
+  | SSL_CERTIFICATE_ERROR
+  | SSL_CERTIFICATE_REQUIRED
+  | HTTP_REQUEST_SENT_TO_HTTPS_PORT
+  | CLIENT_CLOSED_REQUEST;
+
+/**
+ * The nginx client error status codes, keyed by name.
+ */
+export const NginxClientError = Object.freeze({
+  NO_RESPONSE,
+  REQUEST_HEADER_TOO_LARGE,
+  SSL_CERTIFICATE_ERROR,
+  SSL_CERTIFICATE_REQUIRED,
+  HTTP_REQUEST_SENT_TO_HTTPS_PORT,
+  CLIENT_CLOSED_REQUEST,
+} as const);
+
+/**
+ * An unofficial status code used by nginx.
+ */
+export type NginxStatus = NginxClientError;
+
+const NGINX_TABLE = {
+  [NO_RESPONSE]: {
+    name: "NO_RESPONSE",
+    reason: "No Response",
+    deprecated: false,
+  },
+  [REQUEST_HEADER_TOO_LARGE]: {
+    name: "REQUEST_HEADER_TOO_LARGE",
+    reason: "Request Header Too Large",
+    deprecated: false,
+  },
+  [SSL_CERTIFICATE_ERROR]: {
+    name: "SSL_CERTIFICATE_ERROR",
+    reason: "SSL Certificate Error",
+    deprecated: false,
+  },
+  [SSL_CERTIFICATE_REQUIRED]: {
+    name: "SSL_CERTIFICATE_REQUIRED",
+    reason: "SSL Certificate Required",
+    deprecated: false,
+  },
+  [HTTP_REQUEST_SENT_TO_HTTPS_PORT]: {
+    name: "HTTP_REQUEST_SENT_TO_HTTPS_PORT",
+    reason: "HTTP Request Sent to HTTPS Port",
+    deprecated: false,
+  },
+  [CLIENT_CLOSED_REQUEST]: {
+    name: "CLIENT_CLOSED_REQUEST",
+    reason: "Client Closed Request",
+    deprecated: false,
+  },
+} as const;
+
+const NGINX_TABLE_MATCHES: TableMatches<
+  typeof import("./NginxStatusCodes"),
+  typeof NGINX_TABLE,
+  NginxStatus
+> = true;
+
+/**
+ * The metadata of every nginx status code, keyed by code.
+ */
+export const NGINX_STATUS_REGISTRY: {
+  readonly [S in NginxStatus]: VendorStatusInfo<S>;
+} = vendorRegistry("nginx", NGINX_TABLE);
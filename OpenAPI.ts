@@ -0,0 +1,280 @@
+// OpenAPI 3.1 `responses` objects built from the registry, and a check
+// that a document only uses known status codes.
+
+import {
+  HTTPStatus,
+  StatusCategory,
+  isHTTPStatus,
+  mustNotHaveBody,
+  reasonOf,
+} from "./HTTPStatusCodes";
+import { PROBLEM_JSON } from "./ProblemDetails";
+import { ResponseMap, ResponseSchemas } from "./ResponseMap";
+
+/**
+ * The key OpenAPI uses for a whole class of status codes.
+ */
+export type RangeKey = "1XX" | "2XX" | "3XX" | "4XX" | "5XX";
+
+const RANGE_KEYS: { readonly [C in StatusCategory]: RangeKey } = {
+  Informational: "1XX",
+  Success: "2XX",
+  Redirection: "3XX",
+  ClientError: "4XX",
+  ServerError: "5XX",
+};
+
+const RANGE_DESCRIPTIONS: { readonly [K in RangeKey]: string } = {
+  "1XX": "Informational",
+  "2XX": "Success",
+  "3XX": "Redirection",
+  "4XX": "Client Error",
+  "5XX": "Server Error",
+};
+
+/**
+ * A JSON Schema, as used by OpenAPI 3.1.
+ */
+export type JSONSchema = { readonly [keyword: string]: unknown };
+
+/**
+ * An OpenAPI Response Object.
+ */
+export interface OpenAPIResponse {
+  readonly description: string;
+  readonly content?: {
+    readonly [mediaType: string]: { readonly schema: JSONSchema };
+  };
+}
+
+/**
+ * An OpenAPI Responses Object, keyed by status code, range key or
+ * `"default"`.
+ */
+export type OpenAPIResponses = { readonly [key: string]: OpenAPIResponse };
+
+/**
+ * A JSON Schema for a problem details object (RFC 9457 section 3).
+ * Every member is optional, as in the RFC: an absent `type` means
+ * "about:blank".
+ */
+export const PROBLEM_DETAILS_SCHEMA: JSONSchema = Object.freeze({
+  type: "object",
+  properties: {
+    type: { type: "string", format: "uri-reference", default: "about:blank" },
+    status: { type: "integer", minimum: 400, maximum: 599 },
+    title: { type: "string" },
+    detail: { type: "string" },
+    instance: { type: "string", format: "uri-reference" },
+  },
+});
+
+/**
+ * What `openApiResponses` documents: status codes, whole classes of
+ * them by name, and `"default"` for any other response.
+ */
+export type DocumentedStatus = HTTPStatus | StatusCategory | "default";
+
+/**
+ * Options for `openApiResponses`.
+ */
+export interface OpenAPIOptions {
+  /**
+   * The schema of the problem details bodies of errors, which defaults
+   * to `PROBLEM_DETAILS_SCHEMA`. Pass `{ $ref: "..." }` to refer to a
+   * shared component instead.
+   */
+  readonly problemSchema?: JSONSchema;
+  /** Descriptions to use instead of the defaults, keyed as the result. */
+  readonly descriptions?: { readonly [key: string]: string };
+}
+
+function isError(key: string): boolean {
+  return key[0] === "4" || key[0] === "5";
+}
+
+/**
+ * Builds the `responses` object of an OpenAPI operation. Each status
+ * code is described by its reason phrase, and each class of codes by
+ * its range key (e.g. `4XX` for `"ClientError"`). Errors are given a
+ * problem details body, and codes that must not have a body are given
+ * none.
+ *
+ * For example:
+ *
+ * ``` js
+ * openApiResponses([OK, NOT_FOUND, "ServerError"]);
+ * // { "200": { description: "OK" },
+ * //   "404": { description: "Not Found",
+ * //            content: { "application/problem+json": { schema: ... } } },
+ * //   "5XX": { description: "Server Error", content: ... } }
+ * ```
+ *
+ * The statuses may also be given as the `ResponseMap` of a route.
+ */
+export function openApiResponses<M extends ResponseSchemas>(
+  statuses: Iterable<DocumentedStatus> | ResponseMap<M>,
+  options: OpenAPIOptions = {}
+): OpenAPIResponses {
+  const { problemSchema = PROBLEM_DETAILS_SCHEMA, descriptions = {} } = options;
+  const documented: Iterable<DocumentedStatus> =
+    "schemas" in statuses ? statuses.statuses : statuses;
+  const responses: { [key: string]: OpenAPIResponse } = {};
+  for (const status of documented) {
+    let key: string;
+    let description: string;
+    let bodyless = false;
+    if (typeof status === "number") {
+      key = String(status);
+      description = reasonOf(status);
+      bodyless = mustNotHaveBody(status);
+    } else if (status === "default") {
+      key = status;
+      description = "Unexpected response";
+    } else {
+      key = RANGE_KEYS[status];
+      description = RANGE_DESCRIPTIONS[RANGE_KEYS[status]];
+    }
+    if (descriptions[key] !== undefined) {
+      description = descriptions[key];
+    }
+    responses[key] =
+      isError(key) && !bodyless
+        ? {
+            description,
+            content: { [PROBLEM_JSON]: { schema: problemSchema } },
+          }
+        : { description };
+  }
+  return responses;
+}
+
+/**
+ * A problem with a key of an OpenAPI `responses` object.
+ */
+export interface OpenAPIIssue {
+  /** A JSON Pointer to the offending key. */
+  readonly path: string;
+  /**
+   * "unknown-status" for a status code that is not registered, or
+   * "invalid-key" for a key that is neither a code, a range key nor
+   * `"default"`.
+   */
+  readonly kind: "unknown-status" | "invalid-key";
+  readonly message: string;
+}
+
+/**
+ * Options for `validateOpenApi`.
+ */
+export interface ValidateOpenAPIOptions {
+  /**
+   * Which codes are known, by default the official ones. Pass
+   * `isExtendedHTTPStatus` to also allow the unofficial ones.
+   */
+  readonly isKnown?: (code: number) => boolean;
+}
+
+const METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+];
+const STATUS_KEY = /^[1-5]\d\d$/;
+const RANGE_KEY = /^[1-5]XX$/;
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// JSON Pointer escaping (RFC 6901 section 3).
+function pointer(...tokens: string[]): string {
+  return tokens
+    .map((token) => "/" + token.replace(/~/g, "~0").replace(/\//g, "~1"))
+    .join("");
+}
+
+/**
+ * Checks that the `responses` of every operation of an OpenAPI
+ * document, including those of webhooks, callbacks and reusable path
+ * items and callbacks, are keyed only by known status codes, range keys
+ * and `"default"`. Returns the problems found, if any.
+ */
+export function validateOpenApi(
+  document: unknown,
+  options: ValidateOpenAPIOptions = {}
+): OpenAPIIssue[] {
+  const { isKnown = isHTTPStatus } = options;
+  const issues: OpenAPIIssue[] = [];
+
+  const checkResponses = (responses: unknown, path: string[]) => {
+    if (!isObject(responses)) {
+      return;
+    }
+    for (const key of Object.keys(responses)) {
+      if (key === "default" || RANGE_KEY.test(key) || key.startsWith("x-")) {
+        continue;
+      }
+      const at = pointer(...path, key);
+      if (!STATUS_KEY.test(key)) {
+        issues.push({
+          path: at,
+          kind: "invalid-key",
+          message: `"${key}" is not a status code, range or "default"`,
+        });
+      } else if (!isKnown(Number(key))) {
+        issues.push({
+          path: at,
+          kind: "unknown-status",
+          message: `${key} is not a known status code`,
+        });
+      }
+    }
+  };
+
+  const checkPaths = (paths: unknown, path: string[]): void => {
+    if (!isObject(paths)) {
+      return;
+    }
+    for (const name of Object.keys(paths)) {
+      const item = paths[name];
+      if (!isObject(item)) {
+        continue;
+      }
+      for (const method of METHODS) {
+        const operation = item[method];
+        if (!isObject(operation)) {
+          continue;
+        }
+        const at = [...path, name, method];
+        checkResponses(operation.responses, [...at, "responses"]);
+        checkCallbacks(operation.callbacks, [...at, "callbacks"]);
+      }
+    }
+  };
+
+  // A map of callback names to callbacks, each like `paths`.
+  const checkCallbacks = (callbacks: unknown, path: string[]): void => {
+    if (isObject(callbacks)) {
+      for (const name of Object.keys(callbacks)) {
+        checkPaths(callbacks[name], [...path, name]);
+      }
+    }
+  };
+
+  if (isObject(document)) {
+    checkPaths(document.paths, ["paths"]);
+    checkPaths(document.webhooks, ["webhooks"]);
+    const { components } = document;
+    if (isObject(components)) {
+      checkPaths(components.pathItems, ["components", "pathItems"]);
+      checkCallbacks(components.callbacks, ["components", "callbacks"]);
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,264 @@
+// Evaluation of conditional requests (RFC 9110 section 13).
+
+import {
+  NOT_MODIFIED,
+  PRECONDITION_FAILED,
+  PRECONDITION_REQUIRED,
+} from "./HTTPStatusCodes";
+import {
+  RequestHeaders,
+  headerValue,
+  isSafeMethod,
+  parseHttpDate,
+} from "./HttpMessage";
+
+export { RequestHeaders };
+
+/**
+ * The validators of the selected representation of the target
+ * resource.
+ */
+export interface Validators {
+  /**
+   * The entity tag, quoted and with any `W/` prefix, e.g. `'W/"v2"'`.
+   * Without quotes, it is taken to be a strong entity tag.
+   */
+  readonly etag?: string;
+  /** When the representation was last modified. */
+  readonly lastModified?: Date | number;
+  /**
+   * Whether there is a current representation, for `If-Match: *` and
+   * `If-None-Match: *`. Defaults to true.
+   */
+  readonly exists?: boolean;
+}
+
+/**
+ * Options for `evaluatePreconditions`.
+ */
+export interface PreconditionOptions {
+  /**
+   * Whether a request with an unsafe method must be conditional, as
+   * with `428 Precondition Required` (RFC 6585 section 3), to prevent
+   * lost updates. `If-Match`, `If-Unmodified-Since` and `If-None-Match`
+   * (as in `If-None-Match: *`, to create a resource only if it does not
+   * exist) each make it conditional. Defaults to false.
+   */
+  readonly requirePrecondition?: boolean;
+}
+
+/**
+ * What to do with a request, as decided by its preconditions:
+ *
+ * - `412`, `304` or `428`: respond with that status.
+ * - "proceed": carry out the request, including any `Range`.
+ * - "ignore-range": carry out the request but ignore its `Range`,
+ *   responding with the whole representation, because `If-Range` did
+ *   not match.
+ */
+export type PreconditionResult =
+  | PRECONDITION_FAILED
+  | NOT_MODIFIED
+  | PRECONDITION_REQUIRED
+  | "proceed"
+  | "ignore-range";
+
+interface EntityTag {
+  readonly weak: boolean;
+  readonly opaque: string;
+}
+
+const ENTITY_TAG = /^\s*(W\/)?"([^"]*)"\s*(?:,|$)/;
+
+/**
+ * The value of the header `name` in `headers`, whatever their case,
+ * with repeated headers joined by commas.
+ */
+export function requestHeader(
+  headers: RequestHeaders,
+  name: string
+): string | undefined {
+  return headerValue(headers, name);
+}
+
+function parseEntityTag(text: string): EntityTag | undefined {
+  const match = ENTITY_TAG.exec(text);
+  return match ? { weak: match[1] !== undefined, opaque: match[2] } : undefined;
+}
+
+// The entity tags of an `If-Match` or `If-None-Match` value, skipping
+// any that are malformed, or "*".
+function parseEntityTags(value: string): EntityTag[] | "*" {
+  if (value.trim() === "*") {
+    return "*";
+  }
+  const tags: EntityTag[] = [];
+  let rest = value;
+  while (rest.trim() !== "") {
+    const match = ENTITY_TAG.exec(rest);
+    if (match) {
+      tags.push({ weak: match[1] !== undefined, opaque: match[2] });
+      rest = rest.slice(match[0].length);
+    } else {
+      const comma = rest.indexOf(",");
+      rest = comma < 0 ? "" : rest.slice(comma + 1);
+    }
+  }
+  return tags;
+}
+
+// The entity tag of the representation, allowing for one given without
+// quotes.
+function currentTag(validators: Validators): EntityTag | undefined {
+  const { etag } = validators;
+  if (etag === undefined) {
+    return undefined;
+  }
+  return parseEntityTag(etag) || { weak: false, opaque: etag };
+}
+
+// RFC 9110 section 8.8.3.2.
+function strongMatch(a: EntityTag, b: EntityTag): boolean {
+  return !a.weak && !b.weak && a.opaque === b.opaque;
+}
+
+function weakMatch(a: EntityTag, b: EntityTag): boolean {
+  return a.opaque === b.opaque;
+}
+
+// HTTP dates have a resolution of one second.
+function seconds(time: Date | number): number {
+  return Math.floor(new Date(time).getTime() / 1000);
+}
+
+// An invalid date is ignored (RFC 9110 sections 13.1.3 and 13.1.4).
+function parseDate(value: string): number | undefined {
+  const time = parseHttpDate(value);
+  return time === undefined ? undefined : seconds(time);
+}
+
+/**
+ * Whether `If-Match` matches: "*" if there is a current
+ * representation, or any of its entity tags by strong comparison.
+ */
+function ifMatch(value: string, validators: Validators): boolean {
+  const tags = parseEntityTags(value);
+  if (tags === "*") {
+    return validators.exists !== false;
+  }
+  const etag = currentTag(validators);
+  return !!etag && tags.some((tag) => strongMatch(tag, etag));
+}
+
+/**
+ * Whether `If-None-Match` matches, that is, none of its entity tags
+ * matches by weak comparison, or it is "*" and there is no current
+ * representation.
+ */
+function ifNoneMatch(value: string, validators: Validators): boolean {
+  const tags = parseEntityTags(value);
+  if (tags === "*") {
+    return validators.exists === false;
+  }
+  const etag = currentTag(validators);
+  return !etag || !tags.some((tag) => weakMatch(tag, etag));
+}
+
+/**
+ * Whether `If-Range` matches: an entity tag by strong comparison, or
+ * a date equal to the last modification date.
+ */
+function ifRange(value: string, validators: Validators): boolean {
+  if (value.trim().startsWith('"') || value.trim().startsWith("W/")) {
+    const tag = parseEntityTag(value);
+    const etag = currentTag(validators);
+    return !!tag && !!etag && strongMatch(tag, etag);
+  }
+  const date = parseDate(value);
+  return (
+    date !== undefined &&
+    validators.lastModified !== undefined &&
+    date === seconds(validators.lastModified)
+  );
+}
+
+/**
+ * Decides how to answer a `method` request with `headers`, given the
+ * validators of the target resource, by evaluating its preconditions
+ * in the order of RFC 9110 section 13.2.2: `If-Match`, then
+ * `If-Unmodified-Since`, then `If-None-Match`, then
+ * `If-Modified-Since`, and finally `If-Range`. Should be called after
+ * the request has been authorised and would otherwise succeed.
+ *
+ * For example:
+ *
+ * ``` js
+ * evaluatePreconditions("GET", { "if-none-match": '"v2"' }, { etag: '"v2"' });
+ * // 304
+ * evaluatePreconditions("PUT", { "if-match": '"v1"' }, { etag: '"v2"' });
+ * // 412
+ * ```
+ */
+export function evaluatePreconditions(
+  method: string,
+  headers: RequestHeaders,
+  validators: Validators,
+  options: PreconditionOptions = {}
+): PreconditionResult {
+  const getOrHead = method === "GET" || method === "HEAD";
+  const { lastModified } = validators;
+  const match = headerValue(headers, "if-match");
+  const unmodifiedSince = headerValue(headers, "if-unmodified-since");
+  const noneMatch = headerValue(headers, "if-none-match");
+  const modifiedSince = headerValue(headers, "if-modified-since");
+
+  if (
+    options.requirePrecondition &&
+    !isSafeMethod(method) &&
+    match === undefined &&
+    unmodifiedSince === undefined &&
+    noneMatch === undefined
+  ) {
+    return PRECONDITION_REQUIRED;
+  }
+
+  // Step 1 and 2.
+  if (match !== undefined) {
+    if (!ifMatch(match, validators)) {
+      return PRECONDITION_FAILED;
+    }
+  } else if (unmodifiedSince !== undefined && lastModified !== undefined) {
+    const date = parseDate(unmodifiedSince);
+    if (date !== undefined && seconds(lastModified) > date) {
+      return PRECONDITION_FAILED;
+    }
+  }
+
+  // Step 3 and 4.
+  if (noneMatch !== undefined) {
+    if (!ifNoneMatch(noneMatch, validators)) {
+      return getOrHead ? NOT_MODIFIED : PRECONDITION_FAILED;
+    }
+  } else if (
+    getOrHead &&
+    modifiedSince !== undefined &&
+    lastModified !== undefined
+  ) {
+    const date = parseDate(modifiedSince);
+    if (date !== undefined && seconds(lastModified) <= date) {
+      return NOT_MODIFIED;
+    }
+  }
+
+  // Step 5.
+  const range = headerValue(headers, "if-range");
+  if (
+    method === "GET" &&
+    range !== undefined &&
+    headerValue(headers, "range") !== undefined &&
+    !ifRange(range, validators)
+  ) {
+    return "ignore-range";
+  }
+  return "proceed";
+}
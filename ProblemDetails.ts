@@ -0,0 +1,138 @@
+// Problem Details for HTTP APIs, as defined by RFC 9457.
+
+import { isClientError, isServerError, reasonOf } from "./HTTPStatusCodes";
+import { ErrorStatus, HttpError } from "./HttpError";
+import { ParseResult } from "./HttpMessage";
+
+/**
+ * The media type of a JSON problem details body.
+ */
+export const PROBLEM_JSON = "application/problem+json";
+
+/**
+ * The problem type used when a problem has no semantics beyond its
+ * status code.
+ */
+export const ABOUT_BLANK = "about:blank";
+
+/**
+ * A problem details object (RFC 9457 section 3). Besides the standard
+ * members it may carry any extension members.
+ */
+export interface ProblemDetails<S extends ErrorStatus = ErrorStatus> {
+  /** A URI reference identifying the problem type. */
+  readonly type: string;
+  /** The status code of the response carrying the problem. */
+  readonly status: S;
+  /** A short, human-readable summary of the problem type. */
+  readonly title: string;
+  /** An explanation specific to this occurrence of the problem. */
+  readonly detail?: string;
+  /** A URI reference identifying this occurrence of the problem. */
+  readonly instance?: string;
+  readonly [extension: string]: unknown;
+}
+
+/**
+ * The members of a problem details object that may be given to
+ * `problemDetails`, including any extension members.
+ */
+export interface ProblemMembers {
+  /** Defaults to `"about:blank"`. */
+  readonly type?: string;
+  /** Defaults to the reason phrase of the status. */
+  readonly title?: string;
+  readonly detail?: string;
+  readonly instance?: string;
+  readonly [extension: string]: unknown;
+}
+
+/**
+ * Builds a problem details object for `status`. The title defaults to
+ * the reason phrase of the status, as RFC 9457 asks of problems of
+ * type `about:blank`.
+ *
+ * For example:
+ *
+ * ``` js
+ * problemDetails(CONFLICT, { detail: "Version 3 is stale", version: 4 });
+ * // { type: "about:blank", title: "Conflict",
+ * //   detail: "Version 3 is stale", version: 4, status: 409 }
+ * ```
+ */
+export function problemDetails<S extends ErrorStatus>(
+  status: S,
+  members: ProblemMembers = {}
+): ProblemDetails<S> {
+  const { type = ABOUT_BLANK, title = reasonOf(status), ...rest } = members;
+  return { type, title, ...rest, status };
+}
+
+/**
+ * Builds a problem details object from an `HttpError`, using its
+ * message as the detail when it differs from the reason phrase.
+ */
+export function problemDetailsOf<S extends ErrorStatus>(
+  error: HttpError<S>,
+  members: ProblemMembers = {}
+): ProblemDetails<S> {
+  if (error.message === error.reason) {
+    return problemDetails(error.status, members);
+  }
+  return problemDetails(error.status, { detail: error.message, ...members });
+}
+
+/**
+ * Why a body could not be parsed as problem details:
+ *
+ *  - `"json"`: the body is not valid JSON;
+ *  - `"object"`: the body is not a JSON object;
+ *  - `"status"`: the `status` member is missing or not an official
+ *    client or server error status code.
+ */
+export interface ProblemDetailsError {
+  readonly kind: "json" | "object" | "status";
+  readonly message: string;
+}
+
+const STRING_MEMBERS = ["type", "title", "detail", "instance"];
+
+/**
+ * Parses a problem details body, given either as JSON text or as an
+ * already parsed value. As RFC 9457 section 3.1 requires, standard
+ * members of the wrong type are ignored: a missing `type` is
+ * `about:blank`, and a missing `title` is the reason phrase of the
+ * status. Unlike the RFC, a body whose `status` is not a known client
+ * or server error is rejected.
+ */
+export function parseProblemDetails(
+  body: unknown
+): ParseResult<ProblemDetails, ProblemDetailsError> {
+  let value = body;
+  if (typeof body === "string") {
+    try {
+      value = JSON.parse(body);
+    } catch (e) {
+      return { ok: false, error: { kind: "json", message: String(e) } };
+    }
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    const message = "Problem details must be a JSON object";
+    return { ok: false, error: { kind: "object", message } };
+  }
+
+  const { status, ...members } = value as { [member: string]: unknown };
+  if (
+    typeof status !== "number" ||
+    !(isClientError(status) || isServerError(status))
+  ) {
+    const message = `Status ${status} is not a client or server error`;
+    return { ok: false, error: { kind: "status", message } };
+  }
+  for (const member of STRING_MEMBERS) {
+    if (typeof members[member] !== "string") {
+      delete members[member];
+    }
+  }
+  return { ok: true, value: problemDetails(status, members) };
+}
@@ -0,0 +1,305 @@
+// Byte range requests (RFC 9110 section 14): parsing the `Range`
+// header, deciding between 200, 206 and 416, and writing
+// multipart/byteranges bodies.
+
+import { OK, PARTIAL_CONTENT, RANGE_NOT_SATISFIABLE } from "./HTTPStatusCodes";
+import { ParseResult } from "./HttpMessage";
+
+/**
+ * A range as requested: from `first` to `last` inclusive, where a
+ * missing `last` means to the end, or the last `suffix` bytes.
+ */
+export type RangeSpec =
+  | { readonly first: number; readonly last?: number }
+  | { readonly suffix: number };
+
+/**
+ * A range of bytes of a representation, from `start` to `end`
+ * inclusive.
+ */
+export interface ByteRange {
+  readonly start: number;
+  readonly end: number;
+}
+
+/**
+ * Why a `Range` header could not be parsed.
+ */
+export interface RangeHeaderError {
+  /** "unit" if the range unit is not bytes, or "syntax". */
+  readonly kind: "unit" | "syntax";
+  readonly message: string;
+}
+
+/**
+ * How to answer a request for byte ranges:
+ *
+ * - `200`: ignore the `Range` header and send the whole
+ *   representation.
+ * - `206`: send `ranges`, in a single part with a `Content-Range`
+ *   header if there is one, or else as multipart/byteranges.
+ * - `416`: send `contentRange` as the `Content-Range` header.
+ */
+export type RangeResolution =
+  | { readonly status: OK }
+  | { readonly status: PARTIAL_CONTENT; readonly ranges: readonly ByteRange[] }
+  | { readonly status: RANGE_NOT_SATISFIABLE; readonly contentRange: string };
+
+/**
+ * Options for `resolveRange`.
+ */
+export interface ResolveRangeOptions {
+  /**
+   * The most ranges to send, after coalescing. A request for more is
+   * answered with the whole representation. Defaults to 16.
+   */
+  readonly maxRanges?: number;
+}
+
+const RANGE_SPEC = /^(\d*)-(\d*)$/;
+
+function failure(
+  kind: RangeHeaderError["kind"],
+  message: string
+): ParseResult<RangeSpec[], RangeHeaderError> {
+  return { ok: false, error: { kind, message } };
+}
+
+/**
+ * Parses the value of a `Range` header with the bytes unit.
+ *
+ * For example:
+ *
+ * ``` js
+ * parseRange("bytes=0-499, -500");
+ * // { ok: true, value: [{ first: 0, last: 499 }, { suffix: 500 }] }
+ * ```
+ */
+export function parseRange(
+  value: string
+): ParseResult<RangeSpec[], RangeHeaderError> {
+  const equals = value.indexOf("=");
+  if (equals < 0) {
+    return failure("syntax", `Range "${value}" has no unit`);
+  }
+  const unit = value.slice(0, equals).trim();
+  if (unit.toLowerCase() !== "bytes") {
+    return failure("unit", `Range unit "${unit}" is not bytes`);
+  }
+  const specs: RangeSpec[] = [];
+  for (const part of value.slice(equals + 1).split(",")) {
+    const text = part.trim();
+    if (text === "") {
+      // Empty list elements are allowed (RFC 9110 section 5.6.1).
+      continue;
+    }
+    const match = RANGE_SPEC.exec(text);
+    if (!match || (match[1] === "" && match[2] === "")) {
+      return failure("syntax", `Malformed range "${text}"`);
+    }
+    if (match[1] === "") {
+      specs.push({ suffix: Number(match[2]) });
+    } else if (match[2] === "") {
+      specs.push({ first: Number(match[1]) });
+    } else {
+      const first = Number(match[1]);
+      const last = Number(match[2]);
+      if (last < first) {
+        return failure("syntax", `Range "${text}" ends before it starts`);
+      }
+      specs.push({ first, last });
+    }
+  }
+  if (specs.length === 0) {
+    return failure("syntax", "Range has no ranges");
+  }
+  return { ok: true, value: specs };
+}
+
+// The bytes of a `length` byte representation `spec` asks for, if any.
+function toByteRange(spec: RangeSpec, length: number): ByteRange | undefined {
+  if ("suffix" in spec) {
+    return spec.suffix === 0 || length === 0
+      ? undefined
+      : { start: Math.max(0, length - spec.suffix), end: length - 1 };
+  }
+  if (spec.first >= length) {
+    return undefined;
+  }
+  const last = spec.last === undefined ? length - 1 : spec.last;
+  return { start: spec.first, end: Math.min(last, length - 1) };
+}
+
+// Sorts ranges and merges those that overlap or touch.
+function coalesce(ranges: ByteRange[]): ByteRange[] {
+  const sorted = ranges.slice().sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [];
+  for (const range of sorted) {
+    const previous = merged[merged.length - 1];
+    if (previous !== undefined && range.start <= previous.end + 1) {
+      merged[merged.length - 1] = {
+        start: previous.start,
+        end: Math.max(previous.end, range.end),
+      };
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Decides how to answer a request with the `Range` header `value` for
+ * a representation of `length` bytes, coalescing overlapping and
+ * adjacent ranges. A missing or malformed header, a unit other than
+ * bytes, or too many ranges, are answered with the whole
+ * representation, as is a request for the last bytes of an empty one.
+ *
+ * Only `GET` requests have ranges, and only if their `If-Range`
+ * matches: pass `undefined` for other requests, or when
+ * `evaluatePreconditions` returns "ignore-range".
+ *
+ * For example:
+ *
+ * ``` js
+ * resolveRange("bytes=0-99,50-199", 1000);
+ * // { status: 206, ranges: [{ start: 0, end: 199 }] }
+ * resolveRange("bytes=1000-", 1000).status; // 416
+ * ```
+ */
+export function resolveRange(
+  value: string | undefined,
+  length: number,
+  options: ResolveRangeOptions = {}
+): RangeResolution {
+  const { maxRanges = 16 } = options;
+  if (value === undefined) {
+    return { status: OK };
+  }
+  const parsed = parseRange(value);
+  if (!parsed.ok) {
+    return { status: OK };
+  }
+  const ranges: ByteRange[] = [];
+  for (const spec of parsed.value) {
+    const range = toByteRange(spec, length);
+    if (range !== undefined) {
+      ranges.push(range);
+    }
+  }
+  if (ranges.length === 0) {
+    if (length === 0 && parsed.value.some((spec) => "suffix" in spec)) {
+      return { status: OK };
+    }
+    return {
+      status: RANGE_NOT_SATISFIABLE,
+      contentRange: `bytes */${length}`,
+    };
+  }
+  const coalesced = coalesce(ranges);
+  if (coalesced.length > maxRanges) {
+    return { status: OK };
+  }
+  return { status: PARTIAL_CONTENT, ranges: coalesced };
+}
+
+/**
+ * The `Content-Range` of `range` of a `length` byte representation.
+ *
+ * For example:
+ *
+ * ``` js
+ * contentRange({ start: 0, end: 499 }, 1234); // "bytes 0-499/1234"
+ * ```
+ */
+export function contentRange(range: ByteRange, length: number): string {
+  return `bytes ${range.start}-${range.end}/${length}`;
+}
+
+/**
+ * Options for `multipartByteRanges`.
+ */
+export interface MultipartOptions {
+  /** The media type of the representation. */
+  readonly contentType: string;
+  /** Defaults to a random boundary. */
+  readonly boundary?: string;
+}
+
+/**
+ * The framing of a multipart/byteranges body (RFC 9110 section
+ * 14.6). Write each part's `head` followed by the bytes of its
+ * `range`, then `tail`.
+ */
+export interface MultipartByteRanges {
+  /** The `Content-Type` of the response. */
+  readonly contentType: string;
+  readonly parts: readonly {
+    readonly range: ByteRange;
+    readonly head: string;
+  }[];
+  readonly tail: string;
+  /** The `Content-Length` of the response. */
+  readonly contentLength: number;
+}
+
+function randomBoundary(): string {
+  let boundary = "";
+  while (boundary.length < 24) {
+    boundary += Math.random().toString(36).slice(2);
+  }
+  return boundary.slice(0, 24);
+}
+
+/**
+ * Frames `ranges` of a `length` byte representation as a
+ * multipart/byteranges body.
+ *
+ * For example:
+ *
+ * ``` js
+ * const body = multipartByteRanges(ranges, size, { contentType: "video/mp4" });
+ * res.writeHead(206, {
+ *   "Content-Type": body.contentType,
+ *   "Content-Length": body.contentLength,
+ * });
+ * for (const { head, range } of body.parts) {
+ *   res.write(head);
+ *   res.write(read(range.start, range.end));
+ * }
+ * res.end(body.tail);
+ * ```
+ */
+export function multipartByteRanges(
+  ranges: readonly ByteRange[],
+  length: number,
+  options: MultipartOptions
+): MultipartByteRanges {
+  const { contentType, boundary = randomBoundary() } = options;
+  if (/[\r\n]/.test(contentType)) {
+    throw new RangeError(`Content type "${contentType}" has a line break`);
+  }
+  const parts = ranges.map((range) => ({
+    range,
+    head:
+      `\r\n--${boundary}\r\n` +
+      `Content-Type: ${contentType}\r\n` +
+      `Content-Range: ${contentRange(range, length)}\r\n\r\n`,
+  }));
+  const tail = `\r\n--${boundary}--\r\n`;
+  let contentLength = byteLength(tail);
+  for (const { range, head } of parts) {
+    contentLength += byteLength(head) + range.end - range.start + 1;
+  }
+  return {
+    contentType: `multipart/byteranges; boundary=${boundary}`,
+    parts,
+    tail,
+    contentLength,
+  };
+}
+
+// The length of `text` in UTF-8.
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
@@ -0,0 +1,224 @@
+// Following redirects: working out the next request from a
+// redirection response (RFC 9110 section 15.4), and guarding chains
+// of redirects against loops.
+
+import {
+  HTTPStatus,
+  MOVED_PERMANENTLY,
+  FOUND,
+  SEE_OTHER,
+  TEMPORARY_REDIRECT,
+  PERMANENT_REDIRECT,
+  Redirection,
+  isRedirection,
+  nameOf,
+} from "./HTTPStatusCodes";
+import { ParseResult } from "./HttpMessage";
+
+/**
+ * A status code whose `Location` is followed automatically. The other
+ * redirection codes are not: `300 Multiple Choices` leaves the choice
+ * to the user, `304 Not Modified` is not a redirect at all, and `305
+ * Use Proxy` and `306 Switch Proxy` are deprecated.
+ */
+export type FollowedRedirection =
+  | MOVED_PERMANENTLY
+  | FOUND
+  | SEE_OTHER
+  | TEMPORARY_REDIRECT
+  | PERMANENT_REDIRECT;
+
+/**
+ * How each followed redirect treats the request method:
+ *
+ *  - `"post-to-get"`: `POST` becomes `GET` without a body, as user
+ *    agents have historically done; other methods are kept;
+ *  - `"get"`: every method but `HEAD` becomes `GET` without a body;
+ *  - `"preserve"`: the method and body are kept.
+ */
+const METHOD_REWRITES: {
+  readonly [S in FollowedRedirection]: "post-to-get" | "get" | "preserve";
+} = {
+  [MOVED_PERMANENTLY]: "post-to-get",
+  [FOUND]: "post-to-get",
+  [SEE_OTHER]: "get",
+  [TEMPORARY_REDIRECT]: "preserve",
+  [PERMANENT_REDIRECT]: "preserve",
+};
+
+/**
+ * The request to make after a redirect.
+ */
+export interface Redirect {
+  /** The status that caused the redirect. */
+  readonly status: FollowedRedirection;
+  readonly method: string;
+  /** The absolute URL to request. */
+  readonly url: string;
+  /** Whether the original request body must be sent again. */
+  readonly resendBody: boolean;
+}
+
+/**
+ * Why a redirect was not followed:
+ *
+ *  - `"not-redirect"`: the status is not a followed redirect;
+ *  - `"base-url"`: the URL of the redirected request is not an
+ *    absolute URL;
+ *  - `"location"`: the `Location` header is missing or not a valid
+ *    URI reference;
+ *  - `"loop"`: the redirect leads back to a request already made;
+ *  - `"max-hops"`: the chain of redirects is too long.
+ */
+export interface RedirectError {
+  readonly kind: "not-redirect" | "base-url" | "location" | "loop" | "max-hops";
+  readonly message: string;
+}
+
+/**
+ * The result of following a redirect.
+ */
+export type RedirectResult = ParseResult<Redirect, RedirectError>;
+
+function failure(kind: RedirectError["kind"], message: string): RedirectResult {
+  return { ok: false, error: { kind, message } };
+}
+
+function absoluteUrl(url: string): URL | undefined {
+  try {
+    return new URL(url);
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function isFollowed(status: Redirection): status is FollowedRedirection {
+  return Object.prototype.hasOwnProperty.call(METHOD_REWRITES, status);
+}
+
+/**
+ * Works out the request to make after a `method` request to `baseUrl`
+ * was answered with `status` and the given `Location` header. A
+ * relative location is resolved against `baseUrl`, and inherits its
+ * fragment if it has none (RFC 9110 section 10.2.2).
+ *
+ * For example:
+ *
+ * ``` js
+ * resolveRedirect(SEE_OTHER, "POST", "/orders/7", "https://shop.example/cart");
+ * // { ok: true, value: { status: 303, method: "GET",
+ * //   url: "https://shop.example/orders/7", resendBody: false } }
+ * ```
+ */
+export function resolveRedirect(
+  status: HTTPStatus,
+  method: string,
+  location: string | undefined,
+  baseUrl: string
+): RedirectResult {
+  if (!isRedirection(status) || !isFollowed(status)) {
+    return failure("not-redirect", `${nameOf(status)} is not followed`);
+  }
+  const base = absoluteUrl(baseUrl);
+  if (base === undefined) {
+    return failure("base-url", `Base URL "${baseUrl}" is not absolute`);
+  }
+  if (location === undefined) {
+    return failure("location", "Redirect has no Location header");
+  }
+  let url: URL;
+  try {
+    url = new URL(location, base);
+  } catch (e) {
+    return failure("location", `Invalid Location "${location}"`);
+  }
+  if (url.hash === "") {
+    url.hash = base.hash;
+  }
+
+  const rewrite = METHOD_REWRITES[status];
+  const toGet =
+    (rewrite === "post-to-get" && method === "POST") ||
+    (rewrite === "get" && method !== "HEAD");
+  return {
+    ok: true,
+    value: {
+      status,
+      method: toGet ? "GET" : method,
+      url: url.href,
+      resendBody: !toGet,
+    },
+  };
+}
+
+/**
+ * Options for a `RedirectChain`.
+ */
+export interface RedirectChainOptions {
+  /** The most redirects to follow. Defaults to 20. */
+  readonly maxHops?: number;
+}
+
+/**
+ * Follows a chain of redirects from an initial request, refusing to
+ * repeat a request already made or to follow more than `maxHops`
+ * redirects. The constructor throws a `TypeError` if the URL of the
+ * initial request is not absolute.
+ *
+ * For example:
+ *
+ * ``` js
+ * const chain = new RedirectChain("GET", "https://a.example/");
+ * chain.follow(FOUND, "https://b.example/"); // { ok: true, ... }
+ * chain.follow(FOUND, "https://a.example/"); // { ok: false, error: { kind: "loop", ... } }
+ * ```
+ */
+export class RedirectChain {
+  private readonly maxHops: number;
+  private readonly requests: { method: string; url: string }[];
+  private readonly redirects: Redirect[] = [];
+
+  constructor(method: string, url: string, options: RedirectChainOptions = {}) {
+    const initial = absoluteUrl(url);
+    if (initial === undefined) {
+      throw new TypeError(`URL "${url}" is not absolute`);
+    }
+    this.maxHops = options.maxHops === undefined ? 20 : options.maxHops;
+    this.requests = [{ method, url: initial.href }];
+  }
+
+  /** The redirects followed so far, in order. */
+  get hops(): readonly Redirect[] {
+    return this.redirects;
+  }
+
+  /** The request most recently made. */
+  get current(): { readonly method: string; readonly url: string } {
+    return this.requests[this.requests.length - 1];
+  }
+
+  /**
+   * Follows a redirect from the current request, answered with
+   * `status` and the given `Location` header. If it is followed, the
+   * returned request becomes the current one.
+   */
+  follow(status: HTTPStatus, location: string | undefined): RedirectResult {
+    const { method, url } = this.current;
+    const result = resolveRedirect(status, method, location, url);
+    if (!result.ok) {
+      return result;
+    }
+    const next = result.value;
+    if (this.redirects.length >= this.maxHops) {
+      return failure("max-hops", `More than ${this.maxHops} redirects`);
+    }
+    if (
+      this.requests.some((r) => r.method === next.method && r.url === next.url)
+    ) {
+      return failure("loop", `${next.method} ${next.url} was already made`);
+    }
+    this.requests.push({ method: next.method, url: next.url });
+    this.redirects.push(next);
+    return result;
+  }
+}
@@ -0,0 +1,317 @@
+// Checks of a response against the requirements HTTP places on its
+// status, for test suites and development-mode middleware.
+
+import {
+  CREATED,
+  FOUND,
+  METHOD_NOT_ALLOWED,
+  MOVED_PERMANENTLY,
+  NOT_MODIFIED,
+  PARTIAL_CONTENT,
+  PERMANENT_REDIRECT,
+  PROXY_AUTHENTICATION_REQUIRED,
+  RANGE_NOT_SATISFIABLE,
+  SEE_OTHER,
+  STATUS_REGISTRY,
+  TEMPORARY_REDIRECT,
+  UNAUTHORIZED,
+  UPGRADE_REQUIRED,
+  isHTTPStatus,
+  mustNotHaveBody,
+} from "./HTTPStatusCodes";
+import {
+  RequestHeaders,
+  ResponseHeaders,
+  describeStatus,
+  headerValue,
+  isSafeMethod,
+} from "./HttpMessage";
+
+/**
+ * A response to check, and the request it answers.
+ */
+export interface ResponseSummary {
+  /** The request method, in upper case. */
+  readonly method: string;
+  readonly status: number;
+  /** Defaults to no headers. */
+  readonly headers?: ResponseHeaders;
+  /** Whether the response has content. Defaults to false. */
+  readonly hasBody?: boolean;
+  /**
+   * The request headers. Without them, `206` responses are not checked
+   * against the `Range` of the request.
+   */
+  readonly requestHeaders?: RequestHeaders;
+}
+
+/**
+ * A check made by `validateResponse`:
+ *
+ * - "invalid-status": the status is not a three-digit code from 100 to
+ *   599.
+ * - "unknown-status": the status is not registered.
+ * - "deprecated-status": the status is deprecated or obsolete.
+ * - "forbidden-body": the response has content, but its status or the
+ *   request method rules it out.
+ * - "created-by-safe-method": a `201` answers a request with a safe
+ *   method, which should not have created anything.
+ * - "unrequested-partial-content": a `206` answers a request other than
+ *   a `GET` with a `Range`.
+ * - "missing-content-range": a `206` has neither a `Content-Range` nor
+ *   multipart/byteranges content.
+ * - "not-modified-other-method": a `304` answers a request other than
+ *   a `GET` or `HEAD`.
+ * - "missing-location": a redirection has no `Location`.
+ * - "missing-www-authenticate": a `401` has no `WWW-Authenticate`.
+ * - "missing-allow": a `405` has no `Allow`.
+ * - "missing-proxy-authenticate": a `407` has no `Proxy-Authenticate`.
+ * - "missing-unsatisfied-range": a `416` has no `Content-Range`.
+ * - "missing-upgrade": a `426` has no `Upgrade`.
+ */
+export type ResponseRule =
+  | "invalid-status"
+  | "unknown-status"
+  | "deprecated-status"
+  | "forbidden-body"
+  | "created-by-safe-method"
+  | "unrequested-partial-content"
+  | "missing-content-range"
+  | "not-modified-other-method"
+  | "missing-location"
+  | "missing-www-authenticate"
+  | "missing-allow"
+  | "missing-proxy-authenticate"
+  | "missing-unsatisfied-range"
+  | "missing-upgrade";
+
+/**
+ * How serious a violation is: "error" for a breach of a requirement
+ * (a MUST), "warning" for a recommendation (a SHOULD) or a likely
+ * mistake.
+ */
+export type ResponseSeverity = "error" | "warning";
+
+/**
+ * A requirement a response does not meet.
+ */
+export interface ResponseViolation {
+  readonly rule: ResponseRule;
+  readonly severity: ResponseSeverity;
+  readonly message: string;
+  /** The document stating the requirement, e.g. `"RFC 9110"`. */
+  readonly rfc: string;
+  /** The section of `rfc` stating the requirement. */
+  readonly section: string;
+}
+
+/**
+ * Options for `validateResponse`.
+ */
+export interface ValidateResponseOptions {
+  /**
+   * Severities to use instead of the defaults for particular rules, or
+   * "off" to skip them, e.g. `{ "deprecated-status": "off" }`.
+   */
+  readonly rules?: {
+    readonly [R in ResponseRule]?: ResponseSeverity | "off";
+  };
+}
+
+// The header each status must or should have (RFC 9110 section 15).
+const REQUIRED_HEADERS: readonly {
+  readonly status: number;
+  readonly header: string;
+  readonly rule: ResponseRule;
+  readonly severity: ResponseSeverity;
+}[] = [
+  ...[
+    MOVED_PERMANENTLY,
+    FOUND,
+    SEE_OTHER,
+    TEMPORARY_REDIRECT,
+    PERMANENT_REDIRECT,
+  ].map((status) => ({
+    status,
+    header: "Location",
+    rule: "missing-location" as const,
+    severity: "warning" as const,
+  })),
+  {
+    status: UNAUTHORIZED,
+    header: "WWW-Authenticate",
+    rule: "missing-www-authenticate",
+    severity: "error",
+  },
+  {
+    status: METHOD_NOT_ALLOWED,
+    header: "Allow",
+    rule: "missing-allow",
+    severity: "error",
+  },
+  {
+    status: PROXY_AUTHENTICATION_REQUIRED,
+    header: "Proxy-Authenticate",
+    rule: "missing-proxy-authenticate",
+    severity: "error",
+  },
+  {
+    status: RANGE_NOT_SATISFIABLE,
+    header: "Content-Range",
+    rule: "missing-unsatisfied-range",
+    severity: "warning",
+  },
+  {
+    status: UPGRADE_REQUIRED,
+    header: "Upgrade",
+    rule: "missing-upgrade",
+    severity: "error",
+  },
+];
+
+/**
+ * Checks a response against the requirements of RFC 9110 and the
+ * other documents defining status codes, citing the section each
+ * violation breaks. Returns the violations found, if any.
+ *
+ * For example:
+ *
+ * ``` js
+ * validateResponse({ method: "DELETE", status: 405 });
+ * // [{ rule: "missing-allow", severity: "error",
+ * //    message: "405 Method Not Allowed has no Allow header",
+ * //    rfc: "RFC 9110", section: "15.5.6" }]
+ * ```
+ */
+export function validateResponse(
+  response: ResponseSummary,
+  options: ValidateResponseOptions = {}
+): ResponseViolation[] {
+  const { method, status, headers = {}, hasBody = false } = response;
+  const { rules = {} } = options;
+  const violations: ResponseViolation[] = [];
+  const report = (
+    rule: ResponseRule,
+    severity: ResponseSeverity,
+    message: string,
+    rfc: string,
+    section: string
+  ) => {
+    const configured = rules[rule] || severity;
+    if (configured !== "off") {
+      violations.push({ rule, severity: configured, message, rfc, section });
+    }
+  };
+  // Reports a breach of a requirement of the definition of the status.
+  const definition = (
+    rule: ResponseRule,
+    severity: ResponseSeverity,
+    message: string
+  ) => {
+    if (isHTTPStatus(status)) {
+      const { rfc, section } = STATUS_REGISTRY[status];
+      report(rule, severity, message, rfc, section);
+    }
+  };
+
+  if (!Number.isInteger(status) || status < 100 || status > 599) {
+    report(
+      "invalid-status",
+      "error",
+      `Status ${status} is not a code from 100 to 599`,
+      "RFC 9110",
+      "15"
+    );
+    return violations;
+  }
+  if (!isHTTPStatus(status)) {
+    report(
+      "unknown-status",
+      "warning",
+      `Status ${status} is not registered`,
+      "RFC 9110",
+      "15"
+    );
+  } else if (STATUS_REGISTRY[status].deprecated) {
+    definition(
+      "deprecated-status",
+      "warning",
+      `${describeStatus(status)} is deprecated`
+    );
+  }
+
+  if (hasBody && mustNotHaveBody(status, method)) {
+    report(
+      "forbidden-body",
+      "error",
+      method === "HEAD"
+        ? "A response to HEAD has content"
+        : `${describeStatus(status)} in response to ${method} has content`,
+      "RFC 9110",
+      "6.4.1"
+    );
+  }
+
+  if (status === CREATED && isSafeMethod(method)) {
+    definition(
+      "created-by-safe-method",
+      "warning",
+      `${describeStatus(status)} in response to ${method}, a safe method`
+    );
+  }
+
+  if (status === PARTIAL_CONTENT) {
+    const { requestHeaders } = response;
+    if (
+      method !== "GET" ||
+      (requestHeaders !== undefined &&
+        headerValue(requestHeaders, "range") === undefined)
+    ) {
+      report(
+        "unrequested-partial-content",
+        "error",
+        `${describeStatus(status)} in response to ${method} without a Range`,
+        "RFC 9110",
+        "14.2"
+      );
+    }
+    const contentType = headerValue(headers, "content-type") || "";
+    if (
+      headerValue(headers, "content-range") === undefined &&
+      !/^\s*multipart\/byteranges\s*(;|$)/i.test(contentType)
+    ) {
+      definition(
+        "missing-content-range",
+        "error",
+        `${describeStatus(
+          status
+        )} has neither a Content-Range header nor multipart/byteranges content`
+      );
+    }
+  }
+
+  if (status === NOT_MODIFIED && method !== "GET" && method !== "HEAD") {
+    definition(
+      "not-modified-other-method",
+      "error",
+      `${describeStatus(
+        status
+      )} in response to ${method}, rather than GET or HEAD`
+    );
+  }
+
+  for (const required of REQUIRED_HEADERS) {
+    if (
+      required.status === status &&
+      headerValue(headers, required.header) === undefined
+    ) {
+      definition(
+        required.rule,
+        required.severity,
+        `${describeStatus(status)} has no ${required.header} header`
+      );
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,186 @@
+// Per-endpoint declarations of the statuses a route may respond with,
+// and the body that goes with each.
+
+import { HTTPStatus, isHTTPStatus } from "./HTTPStatusCodes";
+import { ParseResult } from "./HttpMessage";
+
+/**
+ * Checks a body, returning it typed as `T` or throwing. Either a
+ * function or an object with a `parse` method, as many validation
+ * libraries provide.
+ */
+export type Schema<T> =
+  | ((body: unknown) => T)
+  | { readonly parse: (body: unknown) => T };
+
+/**
+ * The body type a schema checks for.
+ */
+export type BodyOf<X> = X extends Schema<infer T> ? T : never;
+
+/**
+ * A schema for each status a route may respond with.
+ */
+export type ResponseSchemas = { readonly [S in HTTPStatus]?: Schema<unknown> };
+
+/**
+ * The statuses declared by `M`.
+ */
+export type DeclaredStatus<M extends ResponseSchemas> = keyof M & HTTPStatus;
+
+/**
+ * A response declared by `M`: a union discriminated by `status`, so
+ * that switching on it narrows `body`.
+ */
+export type RouteResponse<M extends ResponseSchemas> = {
+  [S in DeclaredStatus<M>]: { readonly status: S; readonly body: BodyOf<M[S]> };
+}[DeclaredStatus<M>];
+
+/**
+ * A handler that may only return the responses declared by `M`.
+ */
+export type RouteHandler<M extends ResponseSchemas, Request = unknown> = (
+  request: Request
+) => RouteResponse<M> | Promise<RouteResponse<M>>;
+
+/**
+ * Why a response did not match its declaration.
+ */
+export interface ResponseMapError {
+  /**
+   * "status" if the status was not declared, or "body" if the schema
+   * for the status rejected the body.
+   */
+  readonly kind: "status" | "body";
+  readonly message: string;
+  readonly status: number;
+}
+
+/**
+ * The responses of a route, as returned by `defineResponses`.
+ */
+export interface ResponseMap<M extends ResponseSchemas> {
+  readonly schemas: M;
+  /** The declared statuses, in ascending order. */
+  readonly statuses: readonly DeclaredStatus<M>[];
+  /** Whether `status` is declared. */
+  allows(status: number): status is DeclaredStatus<M>;
+  /** Builds a response, for a handler to return. */
+  respond<S extends DeclaredStatus<M>>(
+    status: S,
+    body: BodyOf<M[S]>
+  ): RouteResponse<M>;
+  /** Checks a received status and body against the declaration. */
+  parse(
+    status: number,
+    body: unknown
+  ): ParseResult<RouteResponse<M>, ResponseMapError>;
+}
+
+/**
+ * A schema that accepts any body as a `T`, for declaring a body type
+ * without checking it.
+ */
+export function body<T>(): Schema<T> {
+  return (value) => value as T;
+}
+
+/**
+ * A schema for a response without a body.
+ */
+export const NO_BODY: Schema<undefined> = (value) => {
+  if (value !== undefined && value !== null && value !== "") {
+    throw new TypeError("Expected no body");
+  }
+  return undefined;
+};
+
+// The compiler can't follow a generic `M` through `RouteResponse`, but
+// callers have checked that `status` is declared and `body` fits it.
+function pair<M extends ResponseSchemas>(
+  status: number,
+  body: unknown
+): RouteResponse<M> {
+  return { status, body } as unknown as RouteResponse<M>;
+}
+
+function check<T>(schema: Schema<T>, value: unknown): T {
+  return typeof schema === "function" ? schema(value) : schema.parse(value);
+}
+
+/**
+ * Declares the statuses a route may respond with, keyed by status
+ * code, with a schema for the body of each.
+ *
+ * For example:
+ *
+ * ``` ts
+ * const getUser = defineResponses({
+ *   [OK]: body<User>(),
+ *   [NOT_FOUND]: body<ProblemDetails<NOT_FOUND>>(),
+ *   [FORBIDDEN]: body<ProblemDetails<FORBIDDEN>>(),
+ * });
+ *
+ * const handler: RouteHandler<typeof getUser.schemas> = () =>
+ *   getUser.respond(CONFLICT, ...); // A type error
+ *
+ * const result = getUser.parse(response.status, await response.json());
+ * if (result.ok) {
+ *   switch (result.value.status) {
+ *     case OK: // result.value.body is a User
+ *   }
+ * }
+ * ```
+ */
+export function defineResponses<M extends ResponseSchemas>(
+  schemas: M
+): ResponseMap<M> {
+  const statuses = Object.keys(schemas)
+    .map(Number)
+    .filter(isHTTPStatus)
+    .sort((a, b) => a - b) as DeclaredStatus<M>[];
+  const declared = (status: number) =>
+    (statuses as readonly number[]).indexOf(status) >= 0;
+  return Object.freeze({
+    schemas,
+    statuses: Object.freeze(statuses),
+    allows: (status: number): status is DeclaredStatus<M> => declared(status),
+    respond<S extends DeclaredStatus<M>>(status: S, body: BodyOf<M[S]>) {
+      if (!declared(status)) {
+        throw new RangeError(`Status ${status} is not declared`);
+      }
+      return pair<M>(status, body);
+    },
+    parse(
+      status: number,
+      body: unknown
+    ): ParseResult<RouteResponse<M>, ResponseMapError> {
+      if (!declared(status)) {
+        return {
+          ok: false,
+          error: {
+            kind: "status",
+            message: `Status ${status} is not declared`,
+            status,
+          },
+        };
+      }
+      try {
+        const schema = (schemas as { [status: number]: Schema<unknown> })[
+          status
+        ];
+        return { ok: true, value: pair<M>(status, check(schema, body)) };
+      } catch (e) {
+        const reason = e instanceof Error ? e.message : String(e);
+        return {
+          ok: false,
+          error: {
+            kind: "body",
+            message: `Body of ${status} response is invalid: ${reason}`,
+            status,
+          },
+        };
+      }
+    },
+  });
+}
@@ -0,0 +1,176 @@
+// Adapters from a status code to a Node.js `ServerResponse` or a
+// WHATWG `Response`, and assertions on responses for tests.
+
+import {
+  HTTPStatus,
+  Informational,
+  NOT_MODIFIED,
+  NO_CONTENT,
+  RESET_CONTENT,
+  reasonOf,
+} from "./HTTPStatusCodes";
+import { describeStatus } from "./HttpMessage";
+
+/**
+ * A status code a response may be constructed with. Informational
+ * codes are left out, being interim responses sent by the server
+ * itself rather than by a handler.
+ */
+export type ResponseStatus = Exclude<HTTPStatus, Informational>;
+
+/**
+ * A status code whose response must not have a body.
+ */
+export type BodylessStatus = NO_CONTENT | RESET_CONTENT | NOT_MODIFIED;
+
+/**
+ * The body a response with `status` may have: none at all for a
+ * `BodylessStatus`, and otherwise `B`.
+ */
+export type BodyFor<S extends ResponseStatus, B> = S extends BodylessStatus
+  ? null | undefined
+  : B | null | undefined;
+
+/**
+ * Options for constructing a response.
+ */
+export interface ResponseOptions {
+  /** Headers to send with the response. */
+  readonly headers?: Readonly<Record<string, string>>;
+  /** The reason phrase, which defaults to the canonical one. */
+  readonly reason?: string;
+}
+
+/**
+ * The parts of a Node.js `ServerResponse` that `writeResponse` uses.
+ */
+export interface NodeServerResponse {
+  statusCode: number;
+  statusMessage: string;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string | Uint8Array): unknown;
+}
+
+/**
+ * Creates a Fetch API `Response` with `status`, its reason phrase as
+ * the `statusText`, and `body`, which must be left out for a
+ * `BodylessStatus`.
+ *
+ * For example:
+ *
+ * ``` js
+ * createResponse(HTTP.NOT_FOUND, "Nope"); // 404 Not Found
+ * createResponse(HTTP.NO_CONTENT, "Nope"); // A type error
+ * ```
+ */
+export function createResponse<S extends ResponseStatus>(
+  status: S,
+  body?: BodyFor<S, BodyInit>,
+  options: ResponseOptions = {}
+): Response {
+  checkBody(status, body);
+  return new Response(body, {
+    status,
+    statusText: reasonFor(status, options),
+    headers: { ...options.headers },
+  });
+}
+
+/**
+ * Writes a complete response with `status` to a Node.js
+ * `ServerResponse`, setting its `statusCode`, `statusMessage` and
+ * headers and ending it with `body`, which must be left out for a
+ * `BodylessStatus`.
+ */
+export function writeResponse<S extends ResponseStatus>(
+  response: NodeServerResponse,
+  status: S,
+  body?: BodyFor<S, string | Uint8Array>,
+  options: ResponseOptions = {}
+): void {
+  checkBody(status, body);
+  response.statusCode = status;
+  response.statusMessage = reasonFor(status, options);
+  const headers = options.headers || {};
+  for (const name of Object.keys(headers)) {
+    response.setHeader(name, headers[name]);
+  }
+  if (body === null || body === undefined) {
+    response.end();
+  } else {
+    response.end(body);
+  }
+}
+
+function reasonFor(status: ResponseStatus, options: ResponseOptions): string {
+  const reason =
+    options.reason === undefined ? reasonOf(status) : options.reason;
+  if (/[\r\n]/.test(reason)) {
+    throw new RangeError(
+      `Reason phrase ${JSON.stringify(reason)} has a line break`
+    );
+  }
+  return reason;
+}
+
+// The types already forbid a body, but not for callers passing a
+// plain number.
+function checkBody(status: ResponseStatus, body: unknown): void {
+  if (
+    (status === NO_CONTENT ||
+      status === RESET_CONTENT ||
+      status === NOT_MODIFIED) &&
+    body !== null &&
+    body !== undefined
+  ) {
+    throw new TypeError(`A ${status} response must not have a body`);
+  }
+}
+
+/**
+ * Something with a status code: a Fetch API `Response`, or a Node.js
+ * `ServerResponse` or `IncomingMessage`.
+ */
+export type HasStatus =
+  | { readonly status: number }
+  | { readonly statusCode?: number };
+
+/**
+ * `R`, with its status code narrowed to `S`.
+ */
+export type WithStatus<R extends HasStatus, S extends number> = R extends {
+  readonly status: number;
+}
+  ? R & { readonly status: S }
+  : R & { readonly statusCode: S };
+
+function statusOf(response: HasStatus): number | undefined {
+  return "status" in response ? response.status : response.statusCode;
+}
+
+/**
+ * Throws unless `response` has the `expected` status, or one of them,
+ * narrowing its type when it does.
+ *
+ * For example:
+ *
+ * ``` js
+ * const response = await fetch(url);
+ * assertStatus(response, HTTP.OK);
+ * // Error: Expected status 200 OK, got 404 Not Found
+ * ```
+ */
+export function assertStatus<R extends HasStatus, S extends HTTPStatus>(
+  response: R,
+  expected: S | readonly S[]
+): asserts response is WithStatus<R, S> {
+  const statuses: readonly number[] = Array.isArray(expected)
+    ? expected
+    : [expected];
+  const actual = statusOf(response);
+  if (actual === undefined || statuses.indexOf(actual) < 0) {
+    const wanted = statuses.map(describeStatus).join(" or ");
+    const got = actual === undefined ? "no status" : describeStatus(actual);
+    throw new Error(`Expected status ${wanted}, got ${got}`);
+  }
+}
@@ -0,0 +1,175 @@
+// Deciding whether and when to retry a request, from the statuses of
+// the responses so far and their `Retry-After` headers.
+
+import { HTTPStatus, isRetryable } from "./HTTPStatusCodes";
+import { parseHttpDate } from "./HttpMessage";
+
+/**
+ * A response to an attempt at a request.
+ */
+export interface Attempt {
+  readonly status: HTTPStatus;
+  /** The value of the `Retry-After` header, if any. */
+  readonly retryAfter?: string;
+}
+
+/**
+ * How to randomise backoff delays, to keep clients that failed at the
+ * same time from retrying at the same time:
+ *
+ *  - `"none"`: always wait the full delay;
+ *  - `"full"`: wait between zero and the full delay;
+ *  - `"equal"`: wait between half and the full delay.
+ */
+export type Jitter = "none" | "full" | "equal";
+
+/**
+ * Options for a `RetryPolicy`. Delays are in milliseconds.
+ */
+export interface RetryPolicyOptions {
+  /** The most retries to make after the first attempt. Defaults to 3. */
+  readonly maxRetries?: number;
+  /** The delay before the first retry. Defaults to 100. */
+  readonly baseDelay?: number;
+  /** How much the delay grows with each retry. Defaults to 2. */
+  readonly factor?: number;
+  /** The longest backoff delay. Defaults to 30000. */
+  readonly maxDelay?: number;
+  /**
+   * The longest `Retry-After` delay to honour: if the server asks to
+   * wait longer, the request is not retried. Defaults to 60000.
+   */
+  readonly maxRetryAfter?: number;
+  /** Defaults to `"full"`. */
+  readonly jitter?: Jitter;
+  /** Returns a number in [0, 1). Defaults to `Math.random`. */
+  readonly random?: () => number;
+  /** Returns the current time in milliseconds. Defaults to `Date.now`. */
+  readonly now?: () => number;
+  /**
+   * Whether a request with the given method answered with the given
+   * status may be retried. Defaults to `isRetryable`.
+   */
+  readonly retryable?: (status: HTTPStatus, method: string) => boolean;
+}
+
+/**
+ * Whether to retry a request and, if so, when:
+ *
+ *  - `delay` is how long to wait, in milliseconds, and `at` when to
+ *    retry, by the policy's clock;
+ *  - `reason` is why not to retry: the last status is not
+ *    retryable, there have been too many retries, or the server asked
+ *    to wait longer than `maxRetryAfter`.
+ */
+export type RetryDecision =
+  | { readonly retry: true; readonly delay: number; readonly at: number }
+  | {
+      readonly retry: false;
+      readonly reason: "status" | "attempts" | "retry-after";
+    };
+
+const DELTA_SECONDS = /^\d+$/;
+
+/**
+ * Parses a `Retry-After` header value, either delta-seconds or an
+ * HTTP-date (RFC 9110 section 10.2.3), into a delay in milliseconds
+ * from `now`. Returns `undefined` if the value is malformed, e.g.
+ * `"1.5"`. A date in the past is a delay of zero.
+ */
+export function parseRetryAfter(
+  value: string,
+  now: number
+): number | undefined {
+  const text = value.trim();
+  if (DELTA_SECONDS.test(text)) {
+    return Number(text) * 1000;
+  }
+  const date = parseHttpDate(text);
+  return date === undefined ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * A retry policy with exponential backoff and jitter, honouring
+ * `Retry-After`. It keeps no state, and its clock and randomness can
+ * be replaced, so its decisions are deterministic in tests.
+ *
+ * For example:
+ *
+ * ``` js
+ * const policy = new RetryPolicy({ jitter: "none" });
+ * policy.decide([{ status: SERVICE_UNAVAILABLE, retryAfter: "2" }], "POST");
+ * // { retry: true, delay: 2000, at: ... }
+ * ```
+ */
+export class RetryPolicy {
+  private readonly options: Required<RetryPolicyOptions>;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    // Options left undefined take their defaults too.
+    const {
+      maxRetries = 3,
+      baseDelay = 100,
+      factor = 2,
+      maxDelay = 30000,
+      maxRetryAfter = 60000,
+      jitter = "full",
+      random = Math.random,
+      now = Date.now,
+      retryable = isRetryable,
+    } = options;
+    this.options = {
+      maxRetries,
+      baseDelay,
+      factor,
+      maxDelay,
+      maxRetryAfter,
+      jitter,
+      random,
+      now,
+      retryable,
+    };
+  }
+
+  /**
+   * Decides whether to retry a `method` request, given the responses
+   * to every attempt so far, oldest first.
+   */
+  decide(history: readonly Attempt[], method: string): RetryDecision {
+    const { maxRetries, maxRetryAfter, now, retryable } = this.options;
+    const last = history[history.length - 1];
+    if (last === undefined || !retryable(last.status, method)) {
+      return { retry: false, reason: "status" };
+    }
+    if (history.length > maxRetries) {
+      return { retry: false, reason: "attempts" };
+    }
+
+    const time = now();
+    let delay = this.backoff(history.length);
+    if (last.retryAfter !== undefined) {
+      const retryAfter = parseRetryAfter(last.retryAfter, time);
+      if (retryAfter !== undefined) {
+        if (retryAfter > maxRetryAfter) {
+          return { retry: false, reason: "retry-after" };
+        }
+        delay = Math.max(delay, retryAfter);
+      }
+    }
+    return { retry: true, delay, at: time + delay };
+  }
+
+  // The jittered delay before the given retry, counting from 1.
+  private backoff(retry: number): number {
+    const { baseDelay, factor, maxDelay, jitter, random } = this.options;
+    const delay = Math.min(maxDelay, baseDelay * Math.pow(factor, retry - 1));
+    switch (jitter) {
+      case "none":
+        return delay;
+      case "full":
+        return Math.floor(random() * delay);
+      case "equal":
+        return Math.floor(delay / 2 + (random() * delay) / 2);
+    }
+  }
+}
@@ -0,0 +1,172 @@
+// Status lines as defined by RFC 9112 section 4, and the `:status`
+// pseudo-header that replaces them in HTTP/2 (RFC 9113 section
+// 8.3.2) and HTTP/3 (RFC 9114 section 4.3.2).
+
+import { HTTPStatus, isHTTPStatus, reasonOf } from "./HTTPStatusCodes";
+import { ParseResult } from "./HttpMessage";
+
+export { ParseResult };
+
+/**
+ * A version of HTTP whose responses start with a status line. Later
+ * versions carry the status in the `:status` pseudo-header instead,
+ * and have no reason phrase.
+ */
+export type HTTPVersion = "HTTP/1.0" | "HTTP/1.1";
+
+/**
+ * A parsed status line, e.g. `HTTP/1.1 404 Not Found`.
+ */
+export interface StatusLine {
+  readonly version: HTTPVersion;
+  readonly status: HTTPStatus;
+  /** The reason phrase, which may be empty. */
+  readonly reason: string;
+}
+
+/**
+ * What was wrong with a status line or `:status` pseudo-header:
+ *
+ *  - `"syntax"`: the line is not made of a version, a code and an
+ *    optional reason phrase separated by single spaces;
+ *  - `"version"`: the version is malformed or not `HTTP/1.0` or
+ *    `HTTP/1.1`;
+ *  - `"status"`: the code is not three digits;
+ *  - `"unknown-status"`: the code is three digits but not an official
+ *    status code;
+ *  - `"reason"`: the reason phrase contains a forbidden character.
+ */
+export type StatusLineErrorKind =
+  | "syntax"
+  | "version"
+  | "status"
+  | "unknown-status"
+  | "reason";
+
+/**
+ * Why a status line or `:status` pseudo-header could not be parsed.
+ */
+export interface StatusLineError {
+  readonly kind: StatusLineErrorKind;
+  readonly message: string;
+  /** The three-digit code, for `"unknown-status"` errors. */
+  readonly code?: number;
+}
+
+const VERSION = /^HTTP\/\d(\.\d)?$/;
+const STATUS_CODE = /^\d{3}$/;
+// HTAB / SP / VCHAR / obs-text
+const REASON_PHRASE = /^[\t\x20-\x7e\x80-\xff]*$/;
+
+function failure<T>(
+  kind: StatusLineErrorKind,
+  message: string,
+  code?: number
+): ParseResult<T, StatusLineError> {
+  return { ok: false, error: { kind, message, code } };
+}
+
+function parseStatusCode(
+  text: string
+): ParseResult<HTTPStatus, StatusLineError> {
+  if (!STATUS_CODE.test(text)) {
+    return failure("status", `Status code "${text}" is not three digits`);
+  }
+  const code = Number(text);
+  if (!isHTTPStatus(code)) {
+    return failure("unknown-status", `Unknown status code ${code}`, code);
+  }
+  return { ok: true, value: code };
+}
+
+/**
+ * Parses an HTTP/1.0 or HTTP/1.1 status line. A trailing CRLF is
+ * ignored, as is a missing space after the code when there is no
+ * reason phrase.
+ *
+ * For example:
+ *
+ * ``` js
+ * parseStatusLine("HTTP/1.1 404 Not Found");
+ * // { ok: true,
+ * //   value: { version: "HTTP/1.1", status: 404, reason: "Not Found" } }
+ * ```
+ */
+export function parseStatusLine(
+  line: string
+): ParseResult<StatusLine, StatusLineError> {
+  const text = line.endsWith("\r\n") ? line.slice(0, -2) : line;
+  const first = text.indexOf(" ");
+  if (first < 0) {
+    return failure("syntax", "Status line has no status code");
+  }
+  const version = text.slice(0, first);
+  const second = text.indexOf(" ", first + 1);
+  const code = text.slice(first + 1, second < 0 ? undefined : second);
+  const reason = second < 0 ? "" : text.slice(second + 1);
+
+  if (!VERSION.test(version)) {
+    return failure("version", `Malformed HTTP version "${version}"`);
+  }
+  if (version !== "HTTP/1.0" && version !== "HTTP/1.1") {
+    return failure("version", `${version} has no status line`);
+  }
+  const status = parseStatusCode(code);
+  if (!status.ok) {
+    return status;
+  }
+  if (!REASON_PHRASE.test(reason)) {
+    return failure("reason", "Reason phrase contains a control character");
+  }
+  return { ok: true, value: { version, status: status.value, reason } };
+}
+
+/**
+ * Options for `formatStatusLine`.
+ */
+export interface FormatStatusLineOptions {
+  /** Defaults to `"HTTP/1.1"`. */
+  readonly version?: HTTPVersion;
+  /** Defaults to the canonical reason phrase of the status. */
+  readonly reason?: string;
+}
+
+/**
+ * Formats an HTTP/1.0 or HTTP/1.1 status line, without the trailing
+ * CRLF. Throws a `RangeError` if `reason` contains a control
+ * character, as that would let it break out of the line.
+ *
+ * For example:
+ *
+ * ``` js
+ * formatStatusLine(NOT_FOUND); // "HTTP/1.1 404 Not Found"
+ * ```
+ */
+export function formatStatusLine(
+  status: HTTPStatus,
+  options: FormatStatusLineOptions = {}
+): string {
+  const { version = "HTTP/1.1", reason = reasonOf(status) } = options;
+  if (!REASON_PHRASE.test(reason)) {
+    throw new RangeError("Reason phrase contains a control character");
+  }
+  return `${version} ${status} ${reason}`;
+}
+
+/**
+ * Parses the value of an HTTP/2 or HTTP/3 `:status` pseudo-header,
+ * which is the bare three-digit code.
+ */
+export function parseStatusPseudoHeader(
+  value: string
+): ParseResult<HTTPStatus, StatusLineError> {
+  return parseStatusCode(value);
+}
+
+/**
+ * Formats the value of an HTTP/2 or HTTP/3 `:status` pseudo-header.
+ * These versions have no reason phrase.
+ */
+export function formatStatusPseudoHeader(status: HTTPStatus): string {
+  return String(status);
+}
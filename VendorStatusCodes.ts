@@ -0,0 +1,79 @@
+// Support for the packs of unofficial, vendor-specific status codes
+// (`NginxStatusCodes.ts`, `CloudflareStatusCodes.ts`,
+// `IISStatusCodes.ts` and `AWSELBStatusCodes.ts`). None of these
+// codes is an `HTTPStatus`.
+
+import { StatusCategory, classify } from "./HTTPStatusCodes";
+
+/**
+ * A vendor that uses status codes of its own.
+ */
+export type Vendor = "nginx" | "Cloudflare" | "IIS" | "AWS ELB";
+
+/**
+ * Runtime metadata about an unofficial status code.
+ */
+export interface VendorStatusInfo<S extends number = number> {
+  /** The numeric code. */
+  readonly code: S;
+  /** The name of the constant exported for the code. */
+  readonly name: string;
+  /** The reason phrase the vendor uses. */
+  readonly reason: string;
+  /** The class of the code, given by its first digit. */
+  readonly category: StatusCategory;
+  /** The vendor using the code. */
+  readonly vendor: Vendor;
+  /** Whether the vendor no longer uses the code. */
+  readonly deprecated: boolean;
+}
+
+/**
+ * A table of a vendor's codes, as each pack declares it.
+ */
+export type VendorTable = {
+  readonly [code: number]: {
+    readonly name: string;
+    readonly reason: string;
+    readonly deprecated: boolean;
+  };
+};
+
+/**
+ * `true` if `Table` has an entry for exactly the codes `S`, and every
+ * entry names the constant of `Module` holding its code; otherwise
+ * `false`. Packs use it to check their tables at compile time.
+ */
+export type TableMatches<Module, Table, S extends keyof Table> = Exactly<
+  | Exactly<keyof Table, S>
+  | {
+      [K in S]: Table[K] extends { readonly name: infer N }
+        ? N extends keyof Module
+          ? Exactly<Module[N], K>
+          : false
+        : false;
+    }[S],
+  true
+>;
+
+type Exactly<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+
+/**
+ * Builds the frozen registry of a pack from its table.
+ */
+export function vendorRegistry<S extends number>(
+  vendor: Vendor,
+  table: VendorTable
+): { readonly [K in S]: VendorStatusInfo<K> } {
+  const registry: { [code: number]: VendorStatusInfo } = {};
+  for (const key of Object.keys(table)) {
+    const code = Number(key);
+    registry[code] = Object.freeze({
+      code,
+      category: classify(code, { byRange: true }) as StatusCategory,
+      vendor,
+      ...table[code],
+    });
+  }
+  return Object.freeze(registry) as { readonly [K in S]: VendorStatusInfo<K> };
+}
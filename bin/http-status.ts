@@ -0,0 +1,240 @@
+#!/usr/bin/env -S node --no-warnings --experimental-strip-types
+// Looks up status codes from a terminal. Needs Node 22.6 or later:
+//
+//   bin/http-status.ts 429
+//   bin/http-status.ts TOO_MANY_REQUESTS
+//   bin/http-status.ts search "proxy"
+//   bin/http-status.ts list ClientError
+//
+// Add `--json` for output to feed to other programs. The explanation of
+// each code is the doc comment of its constant in HTTPStatusCodes.ts.
+//
+// This script is not part of the library's sources: it is run by Node
+// as is, so it imports with `.ts` extensions and uses `import.meta`.
+// Type-check it on its own, as an ES module:
+//
+//   tsc --noEmit --strict --target es2022 --module esnext \
+//     --moduleResolution bundler --allowImportingTsExtensions \
+//     --types node bin/http-status.ts
+
+import { readFileSync } from "fs";
+import {
+  ALL_STATUSES,
+  DEPRECATED_NAMES,
+  STATUS_REGISTRY,
+  isHTTPStatus,
+} from "../HTTPStatusCodes.ts";
+// Node strips types without resolving them, so they must be imported
+// apart from values.
+import type {
+  HTTPStatus,
+  StatusCategory,
+  StatusInfo,
+} from "../HTTPStatusCodes.ts";
+
+const USAGE = `Usage:
+  bin/http-status.ts <code or name>   Describe a status code
+  bin/http-status.ts search <text>    Find codes by name or description
+  bin/http-status.ts list [class]     List every code, or those of a
+                                      class (e.g. ClientError, 4xx)
+
+Options:
+  --json    Print JSON
+  --help    Print this message
+`;
+
+const CATEGORIES = new Map<string, StatusCategory>([
+  ["informational", "Informational"],
+  ["1xx", "Informational"],
+  ["success", "Success"],
+  ["2xx", "Success"],
+  ["redirection", "Redirection"],
+  ["3xx", "Redirection"],
+  ["clienterror", "ClientError"],
+  ["4xx", "ClientError"],
+  ["servererror", "ServerError"],
+  ["5xx", "ServerError"],
+]);
+
+/**
+ * The registry entry of a code, with its explanation.
+ */
+interface Described extends StatusInfo {
+  readonly description: string;
+  /** A link to the section of the RFC defining the code. */
+  readonly url: string;
+}
+
+const DOC_COMMENT = /\/\*\*\n((?: \*.*\n)*?) \*\/\nexport const (\w+) = \d+;/g;
+
+// Doc comments of the constants, keyed by name, as plain text.
+function readDocs(): Map<string, string> {
+  const source = readFileSync(
+    new URL("../HTTPStatusCodes.ts", import.meta.url),
+    "utf8"
+  );
+  const docs = new Map<string, string>();
+  for (const [, body, name] of source.matchAll(DOC_COMMENT)) {
+    const text = body
+      .split("\n")
+      .map((line) => line.replace(/^ \* ?/, ""))
+      // The reference is printed from the registry instead.
+      .filter((line) => !/^\[[^\]]*\]\([^)]*\)$/.test(line))
+      .join("\n")
+      .replace(/\[([^\]]*)\]\(([^)]*)\)/g, "$1 <$2>")
+      .replace(/^@deprecated /m, "Deprecated: ")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+    docs.set(name, text);
+  }
+  return docs;
+}
+
+function urlOf(info: StatusInfo): string {
+  const rfc = info.rfc.replace(/^RFC /, "rfc");
+  const section = info.section === "" ? "" : `#section-${info.section}`;
+  return `https://www.rfc-editor.org/rfc/${rfc}${section}`;
+}
+
+function describe(status: HTTPStatus, docs: Map<string, string>): Described {
+  const info = STATUS_REGISTRY[status];
+  return {
+    ...info,
+    description: docs.get(info.name) || "",
+    url: urlOf(info),
+  };
+}
+
+// "429", "TOO_MANY_REQUESTS", "too many requests" and "Unauthorised"
+// all find their code.
+function lookup(query: string): HTTPStatus | undefined {
+  if (/^\d+$/.test(query)) {
+    const code = Number(query);
+    return isHTTPStatus(code) ? code : undefined;
+  }
+  const key = query
+    .trim()
+    .toUpperCase()
+    .replace(/[\s-]+/g, "_");
+  const names: { readonly [name: string]: string } = DEPRECATED_NAMES;
+  const name = names[key] || key;
+  return ALL_STATUSES.find(
+    (status) =>
+      STATUS_REGISTRY[status].name === name ||
+      STATUS_REGISTRY[status].reason.toUpperCase().replace(/[\s-]+/g, "_") ===
+        key
+  );
+}
+
+// Whether the letters of `query` appear in order in `text`, to allow
+// for typos like "unavilable".
+function isSubsequence(query: string, text: string): boolean {
+  let i = 0;
+  for (const c of text) {
+    if (c === query[i]) {
+      i++;
+    }
+  }
+  return i === query.length;
+}
+
+// Ranks matches in the name or reason phrase above matches in the
+// description, and exact matches above fuzzy ones; 0 is no match.
+function score(query: string, entry: Described): number {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const title = `${entry.code} ${entry.name.replace(/_/g, " ")} ${
+    entry.reason
+  }`.toLowerCase();
+  const all = `${title} ${entry.description.toLowerCase()}`;
+  if (terms.every((term) => title.includes(term))) {
+    return 3;
+  }
+  if (terms.every((term) => all.includes(term))) {
+    return 2;
+  }
+  const compact = terms.join("");
+  if (
+    compact.length > 3 &&
+    isSubsequence(compact, entry.reason.toLowerCase())
+  ) {
+    return 1;
+  }
+  return 0;
+}
+
+function search(query: string, docs: Map<string, string>): Described[] {
+  return ALL_STATUSES.map((status) => describe(status, docs))
+    .map((entry) => ({ entry, score: score(query, entry) }))
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.entry.code - b.entry.code)
+    .map((match) => match.entry);
+}
+
+function summary(entry: Described): string {
+  const deprecated = entry.deprecated ? " (deprecated)" : "";
+  return `${entry.code} ${entry.reason} (${entry.name})${deprecated}`;
+}
+
+function details(entry: Described): string {
+  const section = entry.section === "" ? "" : `, section ${entry.section}`;
+  return [
+    summary(entry),
+    `Class:     ${entry.category}`,
+    `Reference: ${entry.rfc}${section} <${entry.url}>`,
+    "",
+    entry.description,
+  ].join("\n");
+}
+
+function main(args: string[]): number {
+  const json = args.includes("--json");
+  const words = args.filter((arg) => arg !== "--json");
+  const print = (value: Described | Described[], text: string) =>
+    console.log(json ? JSON.stringify(value, null, 2) : text);
+
+  if (words.length === 0 || words.includes("--help")) {
+    process.stdout.write(USAGE);
+    return words.length === 0 ? 2 : 0;
+  }
+  const docs = readDocs();
+  const [command, ...rest] = words;
+
+  if (command === "search") {
+    const query = rest.join(" ");
+    if (query === "") {
+      process.stderr.write(USAGE);
+      return 2;
+    }
+    const matches = search(query, docs);
+    print(matches, matches.map(summary).join("\n"));
+    return matches.length > 0 ? 0 : 1;
+  }
+
+  if (command === "list") {
+    const key = rest
+      .join("")
+      .toLowerCase()
+      .replace(/[\s_-]/g, "");
+    const category = CATEGORIES.get(key);
+    if (key !== "" && category === undefined) {
+      console.error(`Unknown class "${rest.join(" ")}"`);
+      return 2;
+    }
+    const entries = ALL_STATUSES.map((status) => describe(status, docs)).filter(
+      (entry) => category === undefined || entry.category === category
+    );
+    print(entries, entries.map(summary).join("\n"));
+    return 0;
+  }
+
+  const status = lookup(words.join(" "));
+  if (status === undefined) {
+    console.error(`Unknown status "${words.join(" ")}"`);
+    return 1;
+  }
+  const entry = describe(status, docs);
+  print(entry, details(entry));
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
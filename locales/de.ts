@@ -0,0 +1,135 @@
+// German messages, for the most common status codes.
+
+import {
+  BAD_GATEWAY,
+  BAD_REQUEST,
+  CONFLICT,
+  CONTENT_TOO_LARGE,
+  FORBIDDEN,
+  GATEWAY_TIMEOUT,
+  GONE,
+  INTERNAL_SERVER_ERROR,
+  METHOD_NOT_ALLOWED,
+  NOT_FOUND,
+  NOT_IMPLEMENTED,
+  REQUEST_TIMEOUT,
+  SERVICE_UNAVAILABLE,
+  TOO_MANY_REQUESTS,
+  UNAUTHORIZED,
+  UNPROCESSABLE_CONTENT,
+  UNSUPPORTED_MEDIA_TYPE,
+} from "../HTTPStatusCodes";
+import { MessageCatalog } from "../Messages";
+
+/**
+ * The German catalog.
+ */
+export const GERMAN: MessageCatalog = {
+  locale: "de",
+  statuses: {
+    [BAD_REQUEST]: {
+      reason: "Ungültige Anfrage",
+      explanation:
+        "Die Anfrage konnte nicht verstanden werden. Bitte prüfen Sie sie und versuchen Sie es erneut.",
+    },
+    [UNAUTHORIZED]: {
+      reason: "Nicht angemeldet",
+      explanation: "Bitte melden Sie sich an, um diese Seite zu sehen.",
+    },
+    [FORBIDDEN]: {
+      reason: "Zugriff verweigert",
+      explanation: "Sie haben keine Berechtigung, diese Seite zu sehen.",
+    },
+    [NOT_FOUND]: {
+      reason: "Nicht gefunden",
+      explanation: "Die angeforderte Seite wurde nicht gefunden.",
+    },
+    [METHOD_NOT_ALLOWED]: {
+      reason: "Methode nicht erlaubt",
+      explanation: "Diese Aktion ist hier nicht erlaubt.",
+    },
+    [REQUEST_TIMEOUT]: {
+      reason: "Zeitüberschreitung der Anfrage",
+      explanation:
+        "Die Anfrage hat zu lange gedauert. Bitte versuchen Sie es erneut.",
+    },
+    [CONFLICT]: {
+      reason: "Konflikt",
+      explanation:
+        "Die Anfrage steht im Konflikt mit einer zwischenzeitlichen Änderung. Bitte laden Sie die Seite neu und versuchen Sie es erneut.",
+    },
+    [GONE]: {
+      reason: "Nicht mehr verfügbar",
+      explanation: "Die angeforderte Seite wurde entfernt.",
+    },
+    [CONTENT_TOO_LARGE]: {
+      reason: "Inhalt zu groß",
+      explanation: "Die gesendeten Daten sind zu groß.",
+    },
+    [UNSUPPORTED_MEDIA_TYPE]: {
+      reason: "Nicht unterstützter Medientyp",
+      explanation: "Dieser Dateityp wird nicht unterstützt.",
+    },
+    [UNPROCESSABLE_CONTENT]: {
+      reason: "Nicht verarbeitbarer Inhalt",
+      explanation:
+        "Die Anfrage konnte nicht verarbeitet werden. Bitte prüfen Sie Ihre Eingaben.",
+    },
+    [TOO_MANY_REQUESTS]: {
+      reason: "Zu viele Anfragen",
+      explanation:
+        "Zu viele Anfragen. Bitte warten Sie einen Moment und versuchen Sie es erneut.",
+    },
+    [INTERNAL_SERVER_ERROR]: {
+      reason: "Interner Serverfehler",
+      explanation:
+        "Bei uns ist etwas schiefgelaufen. Bitte versuchen Sie es später erneut.",
+    },
+    [NOT_IMPLEMENTED]: {
+      reason: "Nicht implementiert",
+      explanation: "Diese Funktion wird nicht unterstützt.",
+    },
+    [BAD_GATEWAY]: {
+      reason: "Fehlerhaftes Gateway",
+      explanation:
+        "Ein vorgelagerter Server hat ungültig geantwortet. Bitte versuchen Sie es später erneut.",
+    },
+    [SERVICE_UNAVAILABLE]: {
+      reason: "Dienst nicht verfügbar",
+      explanation:
+        "Der Dienst ist vorübergehend nicht verfügbar. Bitte versuchen Sie es später erneut.",
+    },
+    [GATEWAY_TIMEOUT]: {
+      reason: "Gateway-Zeitüberschreitung",
+      explanation:
+        "Ein vorgelagerter Server hat zu lange nicht geantwortet. Bitte versuchen Sie es später erneut.",
+    },
+  },
+  categories: {
+    Informational: {
+      reason: "Information",
+      explanation: "Die Anfrage wird bearbeitet.",
+    },
+    Success: {
+      reason: "Erfolg",
+      explanation: "Die Anfrage war erfolgreich.",
+    },
+    Redirection: {
+      reason: "Weiterleitung",
+      explanation: "Die Seite befindet sich unter einer anderen Adresse.",
+    },
+    ClientError: {
+      reason: "Fehler in der Anfrage",
+      explanation: "Bei der Anfrage ist ein Problem aufgetreten.",
+    },
+    ServerError: {
+      reason: "Serverfehler",
+      explanation:
+        "Bei uns ist etwas schiefgelaufen. Bitte versuchen Sie es später erneut.",
+    },
+  },
+  unknown: {
+    reason: "Unbekannter Status",
+    explanation: "Etwas Unerwartetes ist passiert.",
+  },
+};
@@ -0,0 +1,193 @@
+// English messages, for every official status code.
+
+import {
+  ALL_STATUSES,
+  HTTPStatus,
+  STATUS_REGISTRY,
+  CONTINUE,
+  SWITCHING_PROTOCOLS,
+  PROCESSING,
+  EARLY_HINTS,
+  OK,
+  CREATED,
+  ACCEPTED,
+  NON_AUTHORITATIVE_INFORMATION,
+  NO_CONTENT,
+  RESET_CONTENT,
+  PARTIAL_CONTENT,
+  MULTI_STATUS,
+  ALREADY_REPORTED,
+  IM_USED,
+  MULTIPLE_CHOICES,
+  MOVED_PERMANENTLY,
+  FOUND,
+  SEE_OTHER,
+  NOT_MODIFIED,
+  USE_PROXY,
+  SWITCH_PROXY,
+  TEMPORARY_REDIRECT,
+  PERMANENT_REDIRECT,
+  BAD_REQUEST,
+  UNAUTHORIZED,
+  PAYMENT_REQUIRED,
+  FORBIDDEN,
+  NOT_FOUND,
+  METHOD_NOT_ALLOWED,
+  NOT_ACCEPTABLE,
+  PROXY_AUTHENTICATION_REQUIRED,
+  REQUEST_TIMEOUT,
+  CONFLICT,
+  GONE,
+  LENGTH_REQUIRED,
+  PRECONDITION_FAILED,
+  CONTENT_TOO_LARGE,
+  URI_TOO_LONG,
+  UNSUPPORTED_MEDIA_TYPE,
+  RANGE_NOT_SATISFIABLE,
+  EXPECTATION_FAILED,
+  IM_A_TEAPOT,
+  MISDIRECTED_REQUEST,
+  UNPROCESSABLE_CONTENT,
+  LOCKED,
+  FAILED_DEPENDENCY,
+  TOO_EARLY,
+  UPGRADE_REQUIRED,
+  PRECONDITION_REQUIRED,
+  TOO_MANY_REQUESTS,
+  REQUEST_HEADER_FIELDS_TOO_LARGE,
+  UNAVAILABLE_FOR_LEGAL_REASONS,
+  INTERNAL_SERVER_ERROR,
+  NOT_IMPLEMENTED,
+  BAD_GATEWAY,
+  SERVICE_UNAVAILABLE,
+  GATEWAY_TIMEOUT,
+  HTTP_VERSION_NOT_SUPPORTED,
+  VARIANT_ALSO_NEGOTIATES,
+  INSUFFICIENT_STORAGE,
+  LOOP_DETECTED,
+  NOT_EXTENDED,
+  NETWORK_AUTHENTICATION_REQUIRED,
+} from "../HTTPStatusCodes";
+import { MessageCatalog, StatusMessage } from "../Messages";
+
+const EXPLANATIONS: { readonly [S in HTTPStatus]: string } = {
+  [CONTINUE]: "The request is being received.",
+  [SWITCHING_PROTOCOLS]: "The connection is switching to another protocol.",
+  [PROCESSING]: "The request is still being processed.",
+  [EARLY_HINTS]: "The response is on its way.",
+  [OK]: "The request succeeded.",
+  [CREATED]: "The item was created.",
+  [ACCEPTED]: "The request was accepted and will be processed later.",
+  [NON_AUTHORITATIVE_INFORMATION]:
+    "The request succeeded, but the response was changed on the way.",
+  [NO_CONTENT]: "The request succeeded. There is nothing to show.",
+  [RESET_CONTENT]: "The request succeeded. Please clear the form.",
+  [PARTIAL_CONTENT]: "Part of the requested item was sent.",
+  [MULTI_STATUS]: "Several operations were carried out, with mixed results.",
+  [ALREADY_REPORTED]: "These results were already reported.",
+  [IM_USED]: "The request succeeded, and changes to the item were sent.",
+  [MULTIPLE_CHOICES]: "There are several versions of this page to choose from.",
+  [MOVED_PERMANENTLY]: "This page has moved to a new address.",
+  [FOUND]: "This page is temporarily at another address.",
+  [SEE_OTHER]: "The result can be found at another address.",
+  [NOT_MODIFIED]: "The page has not changed since you last saw it.",
+  [USE_PROXY]: "This page must be reached through a proxy.",
+  [SWITCH_PROXY]: "This page must be reached through a different proxy.",
+  [TEMPORARY_REDIRECT]: "This page is temporarily at another address.",
+  [PERMANENT_REDIRECT]: "This page has moved to a new address.",
+  [BAD_REQUEST]:
+    "The request could not be understood. Please check it and try again.",
+  [UNAUTHORIZED]: "Please sign in to see this page.",
+  [PAYMENT_REQUIRED]: "Payment is required to continue.",
+  [FORBIDDEN]: "You don't have permission to see this page.",
+  [NOT_FOUND]: "The page you asked for could not be found.",
+  [METHOD_NOT_ALLOWED]: "This action is not allowed here.",
+  [NOT_ACCEPTABLE]:
+    "The page is not available in a format your browser accepts.",
+  [PROXY_AUTHENTICATION_REQUIRED]: "Please sign in to your proxy to continue.",
+  [REQUEST_TIMEOUT]: "The request took too long. Please try again.",
+  [CONFLICT]:
+    "The request conflicts with a change made in the meantime. Please reload and try again.",
+  [GONE]: "The page you asked for has been removed.",
+  [LENGTH_REQUIRED]: "The request was incomplete.",
+  [PRECONDITION_FAILED]:
+    "The item changed since you last saw it. Please reload and try again.",
+  [CONTENT_TOO_LARGE]: "What you sent is too large.",
+  [URI_TOO_LONG]: "The address is too long.",
+  [UNSUPPORTED_MEDIA_TYPE]: "This type of file is not supported.",
+  [RANGE_NOT_SATISFIABLE]: "The requested part of the item does not exist.",
+  [EXPECTATION_FAILED]: "The request could not be handled as asked.",
+  [IM_A_TEAPOT]: "This server is a teapot, and cannot brew coffee.",
+  [MISDIRECTED_REQUEST]: "The request was sent to the wrong server.",
+  [UNPROCESSABLE_CONTENT]:
+    "The request could not be processed. Please check what you entered.",
+  [LOCKED]: "The item is locked.",
+  [FAILED_DEPENDENCY]: "The request failed because another request failed.",
+  [TOO_EARLY]: "The request was sent too early. Please try again.",
+  [UPGRADE_REQUIRED]: "Please upgrade to a newer protocol to continue.",
+  [PRECONDITION_REQUIRED]:
+    "The request must say which version of the item it changes.",
+  [TOO_MANY_REQUESTS]: "Too many requests. Please wait a moment and try again.",
+  [REQUEST_HEADER_FIELDS_TOO_LARGE]: "The request headers are too large.",
+  [UNAVAILABLE_FOR_LEGAL_REASONS]:
+    "This page is not available for legal reasons.",
+  [INTERNAL_SERVER_ERROR]:
+    "Something went wrong on our side. Please try again later.",
+  [NOT_IMPLEMENTED]: "This feature is not supported.",
+  [BAD_GATEWAY]:
+    "A server we rely on sent an invalid response. Please try again later.",
+  [SERVICE_UNAVAILABLE]:
+    "The service is temporarily unavailable. Please try again later.",
+  [GATEWAY_TIMEOUT]:
+    "A server we rely on took too long to respond. Please try again later.",
+  [HTTP_VERSION_NOT_SUPPORTED]:
+    "Your browser's version of HTTP is not supported.",
+  [VARIANT_ALSO_NEGOTIATES]: "The server is misconfigured.",
+  [INSUFFICIENT_STORAGE]: "The server has run out of storage space.",
+  [LOOP_DETECTED]: "The server got stuck in a loop.",
+  [NOT_EXTENDED]: "The request needs extensions the server does not support.",
+  [NETWORK_AUTHENTICATION_REQUIRED]:
+    "Please sign in to the network to get online.",
+};
+
+const statuses: { [S in HTTPStatus]?: StatusMessage } = {};
+for (const status of ALL_STATUSES) {
+  statuses[status] = Object.freeze({
+    reason: STATUS_REGISTRY[status].reason,
+    explanation: EXPLANATIONS[status],
+  });
+}
+
+/**
+ * The English catalog. Its reason phrases are the canonical ones.
+ */
+export const ENGLISH: MessageCatalog = {
+  locale: "en",
+  statuses,
+  categories: {
+    Informational: {
+      reason: "Information",
+      explanation: "The request is being handled.",
+    },
+    Success: {
+      reason: "Success",
+      explanation: "The request succeeded.",
+    },
+    Redirection: {
+      reason: "Redirection",
+      explanation: "The page is at another address.",
+    },
+    ClientError: {
+      reason: "Request error",
+      explanation: "There was a problem with the request.",
+    },
+    ServerError: {
+      reason: "Server error",
+      explanation: "Something went wrong on our side. Please try again later.",
+    },
+  },
+  unknown: {
+    reason: "Unknown status",
+    explanation: "Something unexpected happened.",
+  },
+};
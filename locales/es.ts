@@ -0,0 +1,134 @@
+// Spanish messages, for the most common status codes.
+
+import {
+  BAD_GATEWAY,
+  BAD_REQUEST,
+  CONFLICT,
+  CONTENT_TOO_LARGE,
+  FORBIDDEN,
+  GATEWAY_TIMEOUT,
+  GONE,
+  INTERNAL_SERVER_ERROR,
+  METHOD_NOT_ALLOWED,
+  NOT_FOUND,
+  NOT_IMPLEMENTED,
+  REQUEST_TIMEOUT,
+  SERVICE_UNAVAILABLE,
+  TOO_MANY_REQUESTS,
+  UNAUTHORIZED,
+  UNPROCESSABLE_CONTENT,
+  UNSUPPORTED_MEDIA_TYPE,
+} from "../HTTPStatusCodes";
+import { MessageCatalog } from "../Messages";
+
+/**
+ * The Spanish catalog.
+ */
+export const SPANISH: MessageCatalog = {
+  locale: "es",
+  statuses: {
+    [BAD_REQUEST]: {
+      reason: "Solicitud incorrecta",
+      explanation:
+        "No se pudo entender la solicitud. Revísela e inténtelo de nuevo.",
+    },
+    [UNAUTHORIZED]: {
+      reason: "No autenticado",
+      explanation: "Inicie sesión para ver esta página.",
+    },
+    [FORBIDDEN]: {
+      reason: "Acceso prohibido",
+      explanation: "No tiene permiso para ver esta página.",
+    },
+    [NOT_FOUND]: {
+      reason: "No encontrado",
+      explanation: "No se encontró la página solicitada.",
+    },
+    [METHOD_NOT_ALLOWED]: {
+      reason: "Método no permitido",
+      explanation: "Esta acción no está permitida aquí.",
+    },
+    [REQUEST_TIMEOUT]: {
+      reason: "Tiempo de espera agotado",
+      explanation: "La solicitud tardó demasiado. Inténtelo de nuevo.",
+    },
+    [CONFLICT]: {
+      reason: "Conflicto",
+      explanation:
+        "La solicitud entra en conflicto con un cambio realizado mientras tanto. Vuelva a cargar la página e inténtelo de nuevo.",
+    },
+    [GONE]: {
+      reason: "Ya no disponible",
+      explanation: "La página solicitada se ha eliminado.",
+    },
+    [CONTENT_TOO_LARGE]: {
+      reason: "Contenido demasiado grande",
+      explanation: "Los datos enviados son demasiado grandes.",
+    },
+    [UNSUPPORTED_MEDIA_TYPE]: {
+      reason: "Tipo de medio no admitido",
+      explanation: "Este tipo de archivo no es compatible.",
+    },
+    [UNPROCESSABLE_CONTENT]: {
+      reason: "Contenido no procesable",
+      explanation:
+        "No se pudo procesar la solicitud. Revise los datos introducidos.",
+    },
+    [TOO_MANY_REQUESTS]: {
+      reason: "Demasiadas solicitudes",
+      explanation:
+        "Demasiadas solicitudes. Espere un momento e inténtelo de nuevo.",
+    },
+    [INTERNAL_SERVER_ERROR]: {
+      reason: "Error interno del servidor",
+      explanation:
+        "Algo salió mal por nuestra parte. Inténtelo de nuevo más tarde.",
+    },
+    [NOT_IMPLEMENTED]: {
+      reason: "No implementado",
+      explanation: "Esta función no es compatible.",
+    },
+    [BAD_GATEWAY]: {
+      reason: "Puerta de enlace incorrecta",
+      explanation:
+        "Un servidor intermedio devolvió una respuesta no válida. Inténtelo de nuevo más tarde.",
+    },
+    [SERVICE_UNAVAILABLE]: {
+      reason: "Servicio no disponible",
+      explanation:
+        "El servicio no está disponible temporalmente. Inténtelo de nuevo más tarde.",
+    },
+    [GATEWAY_TIMEOUT]: {
+      reason: "Tiempo de espera de la puerta de enlace agotado",
+      explanation:
+        "Un servidor intermedio tardó demasiado en responder. Inténtelo de nuevo más tarde.",
+    },
+  },
+  categories: {
+    Informational: {
+      reason: "Información",
+      explanation: "Se está procesando la solicitud.",
+    },
+    Success: {
+      reason: "Éxito",
+      explanation: "La solicitud se completó correctamente.",
+    },
+    Redirection: {
+      reason: "Redirección",
+      explanation: "La página se encuentra en otra dirección.",
+    },
+    ClientError: {
+      reason: "Error en la solicitud",
+      explanation: "Hubo un problema con la solicitud.",
+    },
+    ServerError: {
+      reason: "Error del servidor",
+      explanation:
+        "Algo salió mal por nuestra parte. Inténtelo de nuevo más tarde.",
+    },
+  },
+  unknown: {
+    reason: "Estado desconocido",
+    explanation: "Ocurrió algo inesperado.",
+  },
+};
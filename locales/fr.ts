@@ -0,0 +1,134 @@
+// French messages, for the most common status codes.
+
+import {
+  BAD_GATEWAY,
+  BAD_REQUEST,
+  CONFLICT,
+  CONTENT_TOO_LARGE,
+  FORBIDDEN,
+  GATEWAY_TIMEOUT,
+  GONE,
+  INTERNAL_SERVER_ERROR,
+  METHOD_NOT_ALLOWED,
+  NOT_FOUND,
+  NOT_IMPLEMENTED,
+  REQUEST_TIMEOUT,
+  SERVICE_UNAVAILABLE,
+  TOO_MANY_REQUESTS,
+  UNAUTHORIZED,
+  UNPROCESSABLE_CONTENT,
+  UNSUPPORTED_MEDIA_TYPE,
+} from "../HTTPStatusCodes";
+import { MessageCatalog } from "../Messages";
+
+/**
+ * The French catalog.
+ */
+export const FRENCH: MessageCatalog = {
+  locale: "fr",
+  statuses: {
+    [BAD_REQUEST]: {
+      reason: "Requête incorrecte",
+      explanation:
+        "La requête n'a pas pu être comprise. Veuillez la vérifier et réessayer.",
+    },
+    [UNAUTHORIZED]: {
+      reason: "Non authentifié",
+      explanation: "Veuillez vous connecter pour voir cette page.",
+    },
+    [FORBIDDEN]: {
+      reason: "Accès interdit",
+      explanation: "Vous n'avez pas l'autorisation de voir cette page.",
+    },
+    [NOT_FOUND]: {
+      reason: "Page introuvable",
+      explanation: "La page demandée est introuvable.",
+    },
+    [METHOD_NOT_ALLOWED]: {
+      reason: "Méthode non autorisée",
+      explanation: "Cette action n'est pas autorisée ici.",
+    },
+    [REQUEST_TIMEOUT]: {
+      reason: "Délai de requête dépassé",
+      explanation: "La requête a pris trop de temps. Veuillez réessayer.",
+    },
+    [CONFLICT]: {
+      reason: "Conflit",
+      explanation:
+        "La requête est en conflit avec une modification faite entre-temps. Veuillez recharger la page et réessayer.",
+    },
+    [GONE]: {
+      reason: "Supprimé",
+      explanation: "La page demandée a été supprimée.",
+    },
+    [CONTENT_TOO_LARGE]: {
+      reason: "Contenu trop volumineux",
+      explanation: "Les données envoyées sont trop volumineuses.",
+    },
+    [UNSUPPORTED_MEDIA_TYPE]: {
+      reason: "Type de média non pris en charge",
+      explanation: "Ce type de fichier n'est pas pris en charge.",
+    },
+    [UNPROCESSABLE_CONTENT]: {
+      reason: "Contenu non traitable",
+      explanation:
+        "La requête n'a pas pu être traitée. Veuillez vérifier votre saisie.",
+    },
+    [TOO_MANY_REQUESTS]: {
+      reason: "Trop de requêtes",
+      explanation:
+        "Trop de requêtes. Veuillez patienter un instant et réessayer.",
+    },
+    [INTERNAL_SERVER_ERROR]: {
+      reason: "Erreur interne du serveur",
+      explanation:
+        "Une erreur s'est produite de notre côté. Veuillez réessayer plus tard.",
+    },
+    [NOT_IMPLEMENTED]: {
+      reason: "Non implémenté",
+      explanation: "Cette fonctionnalité n'est pas prise en charge.",
+    },
+    [BAD_GATEWAY]: {
+      reason: "Passerelle incorrecte",
+      explanation:
+        "Un serveur intermédiaire a renvoyé une réponse invalide. Veuillez réessayer plus tard.",
+    },
+    [SERVICE_UNAVAILABLE]: {
+      reason: "Service indisponible",
+      explanation:
+        "Le service est temporairement indisponible. Veuillez réessayer plus tard.",
+    },
+    [GATEWAY_TIMEOUT]: {
+      reason: "Délai de passerelle dépassé",
+      explanation:
+        "Un serveur intermédiaire a mis trop de temps à répondre. Veuillez réessayer plus tard.",
+    },
+  },
+  categories: {
+    Informational: {
+      reason: "Information",
+      explanation: "La requête est en cours de traitement.",
+    },
+    Success: {
+      reason: "Succès",
+      explanation: "La requête a abouti.",
+    },
+    Redirection: {
+      reason: "Redirection",
+      explanation: "La page se trouve à une autre adresse.",
+    },
+    ClientError: {
+      reason: "Erreur de requête",
+      explanation: "La requête pose un problème.",
+    },
+    ServerError: {
+      reason: "Erreur du serveur",
+      explanation:
+        "Une erreur s'est produite de notre côté. Veuillez réessayer plus tard.",
+    },
+  },
+  unknown: {
+    reason: "Statut inconnu",
+    explanation: "Un événement inattendu s'est produit.",
+  },
+};
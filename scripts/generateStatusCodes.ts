@@ -0,0 +1,345 @@
+// Regenerates the constants, category unions and registry table of
+// HTTPStatusCodes.ts (the code between its GENERATED markers) from
+// the copy of the IANA HTTP Status Code Registry in
+// iana/http-status-codes.csv. Descriptions, names and semantic flags
+// already in the source are kept; new codes get a stub description
+// and default flags, to be filled in by hand. The reference link that
+// ends the doc comment of each constant is always generated from the
+// registry.
+//
+// Run from the root of the repository, with Node 22.6 or later:
+//
+//   node --experimental-strip-types scripts/generateStatusCodes.ts
+//
+// With `--check`, nothing is written: the script lists where the
+// source and the registry disagree, and fails if they do.
+
+import { readFileSync, writeFileSync } from "fs";
+
+const SOURCE = "HTTPStatusCodes.ts";
+const REGISTRY = "iana/http-status-codes.csv";
+const BEGIN = "// BEGIN GENERATED\n";
+const END = "// END GENERATED\n";
+
+const CATEGORIES = [
+  "Informational",
+  "Success",
+  "Redirection",
+  "ClientError",
+  "ServerError",
+];
+
+const TABLE_COMMENT = `// The reason phrases and references follow the IANA HTTP Status Code
+// Registry (https://www.iana.org/assignments/http-status-codes), and
+// the semantic flags follow RFC 9110 and RFC 9111 (see \`StatusInfo\`).
+// The codes themselves are taken from the constants above: the check
+// below the table fails to compile if a name and its code disagree.
+`;
+
+/**
+ * A code assigned in the IANA registry.
+ */
+interface Assignment {
+  readonly code: number;
+  readonly description: string;
+  readonly rfc: string;
+  readonly section: string | undefined;
+  /** Marked "(OBSOLETED)" in the registry. */
+  readonly obsolete: boolean;
+  /** Registered as "(Unused)", with no description. */
+  readonly unused: boolean;
+}
+
+/**
+ * An entry of the registry table in the source.
+ */
+interface Entry {
+  readonly code: number;
+  readonly name: string;
+  readonly reason: string;
+  readonly rfc: string;
+  readonly section: string;
+  readonly deprecated: boolean;
+  readonly cacheable: boolean;
+  readonly bodyless: boolean;
+  readonly retryable: string;
+}
+
+/**
+ * What the generator keeps from the current source.
+ */
+interface Source {
+  /** Doc comments, keyed by e.g. `"const NOT_FOUND"`. */
+  readonly docs: Map<string, string>;
+  readonly entries: Map<number, Entry>;
+  /**
+   * The names in `DEPRECATED_NAMES`, after the generated code, each
+   * mapped to the name to use instead.
+   */
+  readonly deprecated: Map<string, string>;
+}
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (line === "") {
+      continue;
+    }
+    const fields: string[] = [];
+    const field = /("(?:[^"]|"")*"|[^,]*)(,|$)/g;
+    let match: RegExpExecArray | null;
+    while ((match = field.exec(line)) !== null) {
+      const value = match[1];
+      fields.push(
+        value.startsWith('"') ? value.slice(1, -1).replace(/""/g, '"') : value
+      );
+      if (match[2] === "") {
+        break;
+      }
+    }
+    rows.push(fields);
+  }
+  return rows;
+}
+
+function readRegistry(text: string): Assignment[] {
+  const assignments: Assignment[] = [];
+  for (const [value, description, reference] of parseCsv(text).slice(1)) {
+    if (!/^\d{3}$/.test(value) || description === "Unassigned") {
+      continue;
+    }
+    const ref = /^\[RFC(\d+)(?:, Section ([\d.]+))?\]/.exec(reference);
+    if (ref === null) {
+      throw new Error(`${value}: unrecognised reference "${reference}"`);
+    }
+    assignments.push({
+      code: Number(value),
+      description: description.replace(/ \(OBSOLETED\)$/, ""),
+      rfc: `RFC ${ref[1]}`,
+      section: ref[2],
+      obsolete: description.endsWith("(OBSOLETED)"),
+      unused: description === "(Unused)",
+    });
+  }
+  return assignments;
+}
+
+function readSource(region: string, rest: string): Source {
+  const docs = new Map<string, string>();
+  const doc = /(\/\*\*(?:(?!\*\/)[\s\S])*\*\/)\nexport (const|type) (\w+) =/g;
+  let match: RegExpExecArray | null;
+  while ((match = doc.exec(region)) !== null) {
+    docs.set(`${match[2]} ${match[3]}`, match[1]);
+  }
+
+  const codes = new Map<string, number>();
+  const constant = /^export const (\w+) = (\d+);$/gm;
+  while ((match = constant.exec(region)) !== null) {
+    codes.set(match[1], Number(match[2]));
+  }
+
+  const entries = new Map<number, Entry>();
+  const entry = /^ {2}\[(\w+)\]: \{\n((?: {4}\w+: .*,\n)*) {2}\},$/gm;
+  while ((match = entry.exec(region)) !== null) {
+    const code = codes.get(match[1]);
+    if (code === undefined) {
+      throw new Error(`No constant ${match[1]} for its table entry`);
+    }
+    const fields: { [field: string]: unknown } = { code };
+    for (const line of match[2].split("\n").filter((l) => l !== "")) {
+      const [, field, value] = /^ {4}(\w+): (.*),$/.exec(line)!;
+      fields[field] = JSON.parse(value);
+    }
+    entries.set(code, fields as unknown as Entry);
+  }
+
+  const deprecated = new Map<string, string>();
+  const names = /DEPRECATED_NAMES = Object\.freeze\(\{\n([^}]*)\}/.exec(rest);
+  const name = /^ {2}(\w+): "(\w+)",$/gm;
+  while (names !== null && (match = name.exec(names[1])) !== null) {
+    deprecated.set(match[1], match[2]);
+  }
+  return { docs, entries, deprecated };
+}
+
+// "Too Many Requests" -> "TOO_MANY_REQUESTS"
+function constantName(description: string): string {
+  return description
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+function merge(assignments: Assignment[], source: Source): Entry[] {
+  return assignments.map((a) => {
+    const old = source.entries.get(a.code);
+    const sameRfc = old !== undefined && old.rfc === a.rfc;
+    return {
+      code: a.code,
+      name: old ? old.name : constantName(a.description),
+      reason: a.unused && old ? old.reason : a.description,
+      rfc: a.rfc,
+      section: a.section || (sameRfc ? old.section : ""),
+      deprecated: a.obsolete || a.unused || (old ? old.deprecated : false),
+      cacheable: old ? old.cacheable : false,
+      bodyless: old ? old.bodyless : a.code < 200,
+      retryable: old ? old.retryable : "never",
+    };
+  });
+}
+
+function stubDoc(entry: Entry): string {
+  return `/**\n * ${entry.reason}.\n */`;
+}
+
+// The doc comment line linking to the definition of a code, e.g.
+// " * [RFC 9110, Section 15.5.5](https://www.rfc-editor.org/rfc/rfc9110#section-15.5.5)".
+function referenceLink(entry: Entry): string {
+  const url = `https://www.rfc-editor.org/rfc/rfc${entry.rfc.slice(4)}`;
+  return entry.section === ""
+    ? ` * [${entry.rfc}](${url})`
+    : ` * [${entry.rfc}, Section ${entry.section}](${url}#section-${entry.section})`;
+}
+
+// The link lines ending a doc comment, and any blank line before them.
+const REFERENCE_LINKS = /(?:\n \*)?(?:\n \* \[[^\]\n]*\]\([^)\n]*\))*\n \*\/$/;
+
+// `doc` with its reference links replaced by the one of `entry`.
+function withReference(doc: string, entry: Entry): string {
+  const body = doc.replace(REFERENCE_LINKS, "");
+  return `${body}\n *\n${referenceLink(entry)}\n */`;
+}
+
+function union(name: string, members: string[]): string {
+  const lines = members.map((m) => `\n  | ${m}`);
+  return `export type ${name} =${lines.join("")};\n`;
+}
+
+function render(entries: Entry[], source: Source): string {
+  const doc = (key: string, fallback: string) =>
+    source.docs.get(key) || fallback;
+  const blocks: string[] = [];
+
+  CATEGORIES.forEach((category, i) => {
+    const members = entries.filter((e) => Math.floor(e.code / 100) === i + 1);
+    for (const e of members) {
+      blocks.push(
+        `${withReference(doc(`const ${e.name}`, stubDoc(e)), e)}\n` +
+          `export const ${e.name} = ${e.code};\n` +
+          `export type ${e.name} = ${e.code};\n`
+      );
+    }
+    const names = members.map((e) => e.name);
+    const typeDoc = doc(`type ${category}`, `/**\n * ${category}\n */`);
+    const constDoc = doc(`const ${category}`, `/**\n * ${category}\n */`);
+    blocks.push(`${typeDoc}\n${union(category, names)}`);
+    const object = "{\n" + names.map((n) => `  ${n},\n`).join("") + "}";
+    const aliases = [...source.deprecated].filter(([, n]) => names.includes(n));
+    if (aliases.length === 0) {
+      blocks.push(
+        `${constDoc}\nexport const ${category} = Object.freeze(${object} as const);\n`
+      );
+    } else {
+      // Deprecated names are added with the values of their
+      // replacements, as their own constants come after this code.
+      const hidden = aliases.map(
+        ([old, n]) =>
+          `    /** @deprecated Use \`${n}\`. */\n    ${old}: ${n},\n`
+      );
+      blocks.push(
+        `${constDoc}\n` +
+          `export const ${category} = withDeprecatedNames(\n` +
+          `  ${object.replace(/\n/g, "\n  ")} as const,\n` +
+          `  {\n${hidden.join("")}  } as const\n` +
+          ");\n"
+      );
+    }
+  });
+
+  const statusDoc = doc("type HTTPStatus", "/**\n * HTTPStatus\n */");
+  blocks.push(`${statusDoc}\n${union("HTTPStatus", CATEGORIES)}`);
+
+  const rows = entries.map(
+    (e) =>
+      `  [${e.name}]: {\n` +
+      `    name: ${JSON.stringify(e.name)},\n` +
+      `    reason: ${JSON.stringify(e.reason)},\n` +
+      `    rfc: ${JSON.stringify(e.rfc)},\n` +
+      `    section: ${JSON.stringify(e.section)},\n` +
+      `    deprecated: ${e.deprecated},\n` +
+      `    cacheable: ${e.cacheable},\n` +
+      `    bodyless: ${e.bodyless},\n` +
+      `    retryable: ${JSON.stringify(e.retryable)},\n` +
+      "  },\n"
+  );
+  blocks.push(
+    `${TABLE_COMMENT}const STATUS_TABLE = {\n${rows.join("")}} as const;\n`
+  );
+
+  return "\n" + blocks.join("\n");
+}
+
+// Describes how the registry differs from the table in the source.
+function differences(source: Source, entries: Entry[]): string[] {
+  const found: string[] = [];
+  const codes = new Set(entries.map((e) => e.code));
+  for (const code of source.entries.keys()) {
+    if (!codes.has(code)) {
+      found.push(`${code}: not in the registry`);
+    }
+  }
+  for (const entry of entries) {
+    const old = source.entries.get(entry.code);
+    if (old === undefined) {
+      found.push(`${entry.code}: missing (${entry.reason})`);
+      continue;
+    }
+    for (const field of ["reason", "rfc", "section", "deprecated"] as const) {
+      if (old[field] !== entry[field]) {
+        const was = JSON.stringify(old[field]);
+        const is = JSON.stringify(entry[field]);
+        found.push(`${entry.code}: ${field} is ${was}, registry has ${is}`);
+      }
+    }
+    const doc = source.docs.get(`const ${entry.name}`);
+    if (doc !== undefined && withReference(doc, entry) !== doc) {
+      found.push(
+        `${entry.code}: doc does not link to ${referenceLink(entry).slice(3)}`
+      );
+    }
+  }
+  return found;
+}
+
+function main(args: string[]): number {
+  const text = readFileSync(SOURCE, "utf8");
+  const begin = text.indexOf(BEGIN);
+  const end = text.indexOf(END);
+  if (begin < 0 || end < begin) {
+    console.error(`${SOURCE} has no GENERATED markers`);
+    return 1;
+  }
+  const region = text.slice(begin + BEGIN.length, end);
+  const source = readSource(region, text.slice(end));
+  const entries = merge(readRegistry(readFileSync(REGISTRY, "utf8")), source);
+  const generated = render(entries, source);
+
+  if (args.includes("--check")) {
+    if (generated === region) {
+      return 0;
+    }
+    const found = differences(source, entries);
+    console.error(`${SOURCE} does not match ${REGISTRY}:`);
+    for (const difference of found.length ? found : ["layout differs"]) {
+      console.error(`  ${difference}`);
+    }
+    return 1;
+  }
+  writeFileSync(
+    SOURCE,
+    text.slice(0, begin + BEGIN.length) + generated + text.slice(end)
+  );
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { messageOf, registeredLocales } from "../Messages";
+import { ENGLISH } from "../locales/en";
+
+test("messageOf falls back to the language, then to English", () => {
+  assert.equal(messageOf(404, "de").locale, "de");
+  assert.equal(messageOf(404, "de-AT").locale, "de");
+  assert.equal(messageOf(404, "pt-BR").locale, "en");
+  assert.equal(messageOf(404).reason, "Not Found");
+});
+
+test("messageOf falls back to the message for the class", () => {
+  assert.deepEqual(messageOf(499, "en"), {
+    locale: "en",
+    ...ENGLISH.categories.ClientError,
+  });
+});
+
+test("messageOf with locales named like Object members", () => {
+  for (const locale of [
+    "constructor",
+    "__proto__",
+    "toString",
+    "hasOwnProperty",
+  ]) {
+    assert.equal(messageOf(404, locale).locale, "en", locale);
+  }
+  assert.deepEqual(registeredLocales().sort(), ["de", "en", "es", "fr"]);
+});
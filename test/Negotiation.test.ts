@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { negotiate, parseAccept, parseAcceptList } from "../Negotiation";
+
+test("parseAccept", () => {
+  assert.deepEqual(parseAccept("text/html, text/plain;format=flowed;q=0.5"), [
+    { type: "text", subtype: "html", parameters: {}, q: 1 },
+    {
+      type: "text",
+      subtype: "plain",
+      parameters: { format: "flowed" },
+      q: 0.5,
+    },
+  ]);
+  assert.deepEqual(parseAccept('*/*;q=0.1, Text/*; Charset="UTF-8"'), [
+    { type: "*", subtype: "*", parameters: {}, q: 0.1 },
+    { type: "text", subtype: "*", parameters: { charset: "UTF-8" }, q: 1 },
+  ]);
+  // Malformed ranges are skipped, and malformed weights are 1.
+  assert.deepEqual(parseAccept("text, */html, a/b;q=2"), [
+    { type: "a", subtype: "b", parameters: {}, q: 1 },
+  ]);
+});
+
+test("parseAcceptList", () => {
+  assert.deepEqual(parseAcceptList("de-AT, en;q=0.5, *;q=0"), [
+    { value: "de-at", q: 1 },
+    { value: "en", q: 0.5 },
+    { value: "*", q: 0 },
+  ]);
+  assert.deepEqual(parseAcceptList(""), []);
+});
+
+test("negotiate media types", () => {
+  const types = ["text/html", "application/json"];
+  assert.deepEqual(
+    negotiate({ accept: "text/html;q=0.9, application/json" }, { types }),
+    { status: 200, type: "application/json", vary: "Accept" }
+  );
+  assert.deepEqual(negotiate({ accept: "*/*" }, { types }), {
+    status: 200,
+    type: "text/html",
+    vary: "Accept",
+  });
+  assert.deepEqual(negotiate({}, { types }), {
+    status: 200,
+    type: "text/html",
+    vary: "Accept",
+  });
+  assert.deepEqual(negotiate({ accept: "image/png" }, { types }), {
+    status: 406,
+    vary: "Accept",
+  });
+});
+
+test("negotiate languages and encodings", () => {
+  const available = { languages: ["en", "de"], encodings: ["br", "gzip"] };
+  assert.deepEqual(
+    negotiate(
+      { "accept-language": "de-AT, de;q=0.9", "accept-encoding": "gzip" },
+      available
+    ),
+    {
+      status: 200,
+      language: "de",
+      encoding: "gzip",
+      vary: "Accept-Language, Accept-Encoding",
+    }
+  );
+  // Without an acceptable language, the first one is used.
+  assert.deepEqual(negotiate({ "accept-language": "fr" }, available), {
+    status: 200,
+    language: "en",
+    encoding: "identity",
+    vary: "Accept-Language, Accept-Encoding",
+  });
+  assert.deepEqual(
+    negotiate({ "accept-language": "fr" }, available, { strictLanguage: true }),
+    { status: 406, vary: "Accept-Language" }
+  );
+  assert.deepEqual(
+    negotiate({ "accept-encoding": "identity;q=0, *;q=0" }, available),
+    { status: 406, vary: "Accept-Language, Accept-Encoding" }
+  );
+});
+
+test("negotiate request content types", () => {
+  const json = (contentType: string, consumes: string[]) =>
+    negotiate({ "content-type": contentType }, { consumes });
+  assert.equal(json("application/json", ["application/json"]).status, 200);
+  assert.equal(
+    json("application/json; charset=utf-8", ["application/json"]).status,
+    200
+  );
+  assert.equal(
+    json("application/json;charset=utf-8", ["application/json;charset=utf-8"])
+      .status,
+    200
+  );
+  assert.equal(
+    json("application/json; charset=UTF-8", ["application/json;charset=utf-8"])
+      .status,
+    200
+  );
+  assert.deepEqual(
+    json("application/json;charset=latin1", ["application/json;charset=utf-8"]),
+    { status: 415, accept: "application/json;charset=utf-8" }
+  );
+  assert.deepEqual(json("text/plain", ["application/json", "text/*"]), {
+    status: 200,
+    vary: "",
+  });
+  assert.deepEqual(json("image/png", ["application/json"]), {
+    status: 415,
+    accept: "application/json",
+  });
+});
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { evaluatePreconditions } from "../Preconditions";
+
+const validators = {
+  etag: '"v2"',
+  lastModified: Date.parse("Tue, 01 Oct 2024 12:00:00 GMT"),
+};
+const BEFORE = "Mon, 30 Sep 2024 12:00:00 GMT";
+const AT = "Tue, 01 Oct 2024 12:00:00 GMT";
+
+test("If-Match", () => {
+  const put = (value: string, exists?: boolean) =>
+    evaluatePreconditions(
+      "PUT",
+      { "If-Match": value },
+      { ...validators, exists }
+    );
+  assert.equal(put('"v2"'), "proceed");
+  assert.equal(put('"v1", "v2"'), "proceed");
+  assert.equal(put('"v1"'), 412);
+  // Strong comparison.
+  assert.equal(put('W/"v2"'), 412);
+  assert.equal(put("*"), "proceed");
+  assert.equal(put("*", false), 412);
+});
+
+test("If-Unmodified-Since", () => {
+  const put = (value: string) =>
+    evaluatePreconditions("PUT", { "if-unmodified-since": value }, validators);
+  assert.equal(put(AT), "proceed");
+  assert.equal(put(BEFORE), 412);
+  assert.equal(put("not a date"), "proceed");
+  // Numbers and partial dates are not HTTP-dates.
+  assert.equal(put("1"), "proceed");
+  assert.equal(put("2024-09-30"), "proceed");
+  // Ignored when If-Match is present.
+  assert.equal(
+    evaluatePreconditions(
+      "PUT",
+      { "if-match": '"v2"', "if-unmodified-since": BEFORE },
+      validators
+    ),
+    "proceed"
+  );
+});
+
+test("If-None-Match", () => {
+  const noneMatch = (method: string, value: string, exists?: boolean) =>
+    evaluatePreconditions(
+      method,
+      { "if-none-match": value },
+      { ...validators, exists }
+    );
+  assert.equal(noneMatch("GET", '"v2"'), 304);
+  // Weak comparison.
+  assert.equal(noneMatch("HEAD", 'W/"v2"'), 304);
+  assert.equal(noneMatch("GET", '"v1"'), "proceed");
+  assert.equal(noneMatch("POST", '"v2"'), 412);
+  assert.equal(noneMatch("PUT", "*"), 412);
+  assert.equal(noneMatch("PUT", "*", false), "proceed");
+});
+
+test("If-Modified-Since", () => {
+  const get = (method: string, headers: { [name: string]: string }) =>
+    evaluatePreconditions(method, headers, validators);
+  assert.equal(get("GET", { "if-modified-since": AT }), 304);
+  assert.equal(get("GET", { "if-modified-since": BEFORE }), "proceed");
+  assert.equal(get("GET", { "if-modified-since": "2030" }), "proceed");
+  assert.equal(get("GET", { "if-modified-since": "Oct 2030" }), "proceed");
+  // Only for GET and HEAD.
+  assert.equal(get("POST", { "if-modified-since": AT }), "proceed");
+  // Ignored when If-None-Match is present.
+  assert.equal(
+    get("GET", { "if-none-match": '"v1"', "if-modified-since": AT }),
+    "proceed"
+  );
+});
+
+test("If-Range", () => {
+  const get = (value: string, range = "bytes=0-99") =>
+    evaluatePreconditions(
+      "GET",
+      new Headers({ "if-range": value, range }),
+      validators
+    );
+  assert.equal(get('"v2"'), "proceed");
+  assert.equal(get('"v1"'), "ignore-range");
+  assert.equal(get('W/"v2"'), "ignore-range");
+  assert.equal(get(AT), "proceed");
+  assert.equal(get(BEFORE), "ignore-range");
+});
+
+test("requirePrecondition", () => {
+  const evaluate = (method: string, headers: { [name: string]: string }) =>
+    evaluatePreconditions(method, headers, validators, {
+      requirePrecondition: true,
+    });
+  assert.equal(evaluate("PUT", {}), 428);
+  assert.equal(evaluate("DELETE", { "if-modified-since": AT }), 428);
+  assert.equal(evaluate("GET", {}), "proceed");
+  assert.equal(evaluate("PUT", { "if-match": '"v2"' }), "proceed");
+  assert.equal(evaluate("PUT", { "if-unmodified-since": AT }), "proceed");
+  // If-None-Match: * makes a request conditional too.
+  assert.equal(evaluate("PUT", { "If-None-Match": "*" }), 412);
+  assert.equal(
+    evaluatePreconditions(
+      "PUT",
+      { "If-None-Match": "*" },
+      { ...validators, exists: false },
+      { requirePrecondition: true }
+    ),
+    "proceed"
+  );
+});
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { RetryPolicy, parseRetryAfter } from "../RetryPolicy";
+
+const NOW = Date.parse("2024-10-01T12:00:00Z");
+
+const policy = new RetryPolicy({ jitter: "none", now: () => NOW });
+
+test("parseRetryAfter with delta-seconds", () => {
+  assert.equal(parseRetryAfter("120", NOW), 120000);
+  assert.equal(parseRetryAfter(" 0 ", NOW), 0);
+  // Seconds, not a year.
+  assert.equal(parseRetryAfter("2030", NOW), 2030000);
+});
+
+test("parseRetryAfter with an HTTP-date", () => {
+  assert.equal(parseRetryAfter("Tue, 01 Oct 2024 12:00:30 GMT", NOW), 30000);
+  // The obsolete formats.
+  assert.equal(parseRetryAfter("Tuesday, 01-Oct-24 12:00:30 GMT", NOW), 30000);
+  assert.equal(parseRetryAfter("Tue Oct  1 12:00:30 2024", NOW), 30000);
+  // A date in the past.
+  assert.equal(parseRetryAfter("Mon, 30 Sep 2024 12:00:00 GMT", NOW), 0);
+});
+
+test("parseRetryAfter with malformed values", () => {
+  for (const value of [
+    "1.5",
+    "-1",
+    "",
+    "soon",
+    "2024-10-01T12:00:30Z",
+    "Tue, 01 Oct 2024 12:00:30",
+    "Tue, 31 Sep 2024 12:00:30 GMT",
+  ]) {
+    assert.equal(parseRetryAfter(value, NOW), undefined, value);
+  }
+});
+
+test("decide honours Retry-After", () => {
+  const decide = (retryAfter?: string) =>
+    policy.decide([{ status: 503, retryAfter }], "GET");
+  assert.deepEqual(decide("2"), { retry: true, delay: 2000, at: NOW + 2000 });
+  assert.deepEqual(decide("Tue, 01 Oct 2024 12:00:05 GMT"), {
+    retry: true,
+    delay: 5000,
+    at: NOW + 5000,
+  });
+  assert.deepEqual(decide("120"), { retry: false, reason: "retry-after" });
+  // A past date or a malformed value leaves the backoff delay.
+  assert.deepEqual(decide("Mon, 30 Sep 2024 12:00:00 GMT"), {
+    retry: true,
+    delay: 100,
+    at: NOW + 100,
+  });
+  assert.deepEqual(decide("1.5"), { retry: true, delay: 100, at: NOW + 100 });
+});
+
+test("decide backs off", () => {
+  const history = [{ status: 503 as const }];
+  assert.equal(policy.decide([{ status: 404 }], "GET").retry, false);
+  assert.deepEqual(policy.decide(history, "GET"), {
+    retry: true,
+    delay: 100,
+    at: NOW + 100,
+  });
+  assert.deepEqual(policy.decide([...history, ...history], "GET"), {
+    retry: true,
+    delay: 200,
+    at: NOW + 200,
+  });
+  assert.deepEqual(
+    policy.decide([...history, ...history, ...history, ...history], "GET"),
+    {
+      retry: false,
+      reason: "attempts",
+    }
+  );
+});